@@ -0,0 +1,276 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { MaybePromise } from './types';
+import { corsHeaders } from './utils/cors';
+
+/** The verified identity behind a bearer token. */
+export type Principal = {
+	subject: string;
+	scopes: string[];
+	clientId?: string;
+	/** Expiration time of the token, in seconds since epoch. */
+	expiresAt?: number;
+	claims: Record<string, unknown>;
+};
+
+/**
+ * Returns the principal of a valid token, or undefined when the token must be rejected.
+ * `resource` is the canonical URI of this server, which the token must be issued for.
+ */
+export type TokenVerifier = (
+	token: string,
+	event: RequestEvent,
+	resource: string
+) => MaybePromise<Principal | undefined>;
+
+export type AuthConfig = {
+	/** Issuer URLs of the authorization servers that can issue tokens for this server. */
+	authorizationServers: string[];
+	verifyToken: TokenVerifier;
+	/** Canonical URI of this MCP server. Defaults to `{origin}/mcp`. */
+	resource?: string;
+	resourceName?: string;
+	resourceDocumentation?: string;
+	scopesSupported?: string[];
+	/** Let requests without a token through. Tools declaring scopes still require one. */
+	optional?: boolean;
+};
+
+export const PROTECTED_RESOURCE_PATH = '/.well-known/oauth-protected-resource';
+
+export const resourceUri = (auth: AuthConfig, event: RequestEvent) => {
+	return auth.resource ?? `${event.url.origin}/mcp`;
+};
+
+const resourceMetadataUrl = (auth: AuthConfig, event: RequestEvent) => {
+	const resource = new URL(resourceUri(auth, event));
+	return `${resource.origin}${PROTECTED_RESOURCE_PATH}${resource.pathname.replace(/\/$/, '')}`;
+};
+
+export const isProtectedResourceMetadataRequest = (event: RequestEvent) => {
+	const { pathname } = event.url;
+	return pathname === PROTECTED_RESOURCE_PATH || pathname.startsWith(`${PROTECTED_RESOURCE_PATH}/`);
+};
+
+// RFC 9728 metadata, telling clients where to get tokens for this server.
+export const protectedResourceMetadata = (auth: AuthConfig, event: RequestEvent) => {
+	return new Response(
+		JSON.stringify({
+			resource: resourceUri(auth, event),
+			authorization_servers: auth.authorizationServers,
+			bearer_methods_supported: ['header'],
+			...(auth.scopesSupported ? { scopes_supported: auth.scopesSupported } : {}),
+			...(auth.resourceName ? { resource_name: auth.resourceName } : {}),
+			...(auth.resourceDocumentation ? { resource_documentation: auth.resourceDocumentation } : {})
+		}),
+		{
+			headers: {
+				...corsHeaders,
+				'Content-Type': 'application/json',
+				'Cache-Control': 'max-age=3600'
+			}
+		}
+	);
+};
+
+export const authChallenge = (
+	auth: AuthConfig,
+	event: RequestEvent,
+	error?: { code: 'invalid_token' | 'insufficient_scope'; description: string; scopes?: string[] }
+) => {
+	const params = [`resource_metadata="${resourceMetadataUrl(auth, event)}"`];
+	if (error) {
+		params.push(`error="${error.code}"`, `error_description="${error.description}"`);
+	}
+	if (error?.scopes?.length) {
+		params.push(`scope="${error.scopes.join(' ')}"`);
+	}
+	const status = error?.code === 'insufficient_scope' ? 403 : 401;
+	return new Response(
+		JSON.stringify({
+			jsonrpc: '2.0',
+			id: null,
+			error: { code: -32000, message: error?.description ?? 'Unauthorized' }
+		}),
+		{
+			status,
+			headers: {
+				...corsHeaders,
+				'Content-Type': 'application/json',
+				'WWW-Authenticate': `Bearer ${params.join(', ')}`
+			}
+		}
+	);
+};
+
+/** Verifies the bearer token of the request. Resolves with a Response when it must stop there. */
+export const authenticate = async (
+	auth: AuthConfig,
+	event: RequestEvent
+): Promise<Principal | undefined | Response> => {
+	const header = event.request.headers.get('Authorization');
+	const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+	if (!token) {
+		return auth.optional ? undefined : authChallenge(auth, event);
+	}
+
+	const principal = await Promise.resolve(
+		auth.verifyToken(token, event, resourceUri(auth, event))
+	).catch(() => undefined);
+	if (!principal) {
+		return authChallenge(auth, event, {
+			code: 'invalid_token',
+			description: 'The access token is invalid or expired'
+		});
+	}
+	if (principal.expiresAt && principal.expiresAt * 1000 < Date.now()) {
+		return authChallenge(auth, event, {
+			code: 'invalid_token',
+			description: 'The access token expired'
+		});
+	}
+	return principal;
+};
+
+export const missingScopes = (principal: Principal | undefined, scopes: string[] = []) => {
+	return scopes.filter((scope) => !principal?.scopes.includes(scope));
+};
+
+/* JWT */
+
+export type JWK = JsonWebKey & { kid?: string; alg?: string };
+export type JWKS = { keys: JWK[] };
+
+const algorithms: Record<string, RsaHashedImportParams | EcKeyImportParams | Algorithm> = {
+	RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+	RS384: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+	RS512: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+	PS256: { name: 'RSA-PSS', hash: 'SHA-256' },
+	PS384: { name: 'RSA-PSS', hash: 'SHA-384' },
+	PS512: { name: 'RSA-PSS', hash: 'SHA-512' },
+	ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+	ES384: { name: 'ECDSA', namedCurve: 'P-384' },
+	ES512: { name: 'ECDSA', namedCurve: 'P-521' },
+	EdDSA: { name: 'Ed25519' }
+};
+
+const verifyParams = (alg: string): Algorithm | RsaPssParams | EcdsaParams => {
+	const hash = `SHA-${alg.slice(2)}`;
+	if (alg.startsWith('PS')) {
+		return { name: 'RSA-PSS', saltLength: Number(alg.slice(2)) / 8 } as RsaPssParams;
+	}
+	if (alg.startsWith('ES')) {
+		return { name: 'ECDSA', hash } as EcdsaParams;
+	}
+	return algorithms[alg];
+};
+
+const base64UrlDecode = (input: string) => {
+	const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const decodeJson = (input: string) => {
+	return JSON.parse(new TextDecoder().decode(base64UrlDecode(input))) as Record<string, unknown>;
+};
+
+const matches = (value: unknown, expected: string | string[]) => {
+	const values = Array.isArray(value) ? value : [value];
+	const accepted = Array.isArray(expected) ? expected : [expected];
+	return values.some((value) => accepted.includes(value as string));
+};
+
+/**
+ * Verifies JWT access tokens signed with one of the keys of a JWKS.
+ * The keys can be given inline (handy for tests) or fetched from a URL and cached.
+ */
+export const jwtVerifier = (options: {
+	jwks: JWKS | string | URL;
+	issuer?: string | string[];
+	/** Defaults to the canonical URI of the server: tokens issued for others are rejected. */
+	audience?: string | string[];
+	/** Seconds of tolerance when checking `exp` and `nbf`. */
+	clockTolerance?: number;
+	/** Seconds before a remote JWKS is fetched again. */
+	cacheTtl?: number;
+}): TokenVerifier => {
+	let cached: { jwks: JWKS; fetchedAt: number } | undefined;
+
+	const getKeys = async () => {
+		if (typeof options.jwks === 'object' && 'keys' in options.jwks) {
+			return options.jwks.keys;
+		}
+		if (!cached || Date.now() - cached.fetchedAt > (options.cacheTtl ?? 600) * 1000) {
+			const response = await fetch(options.jwks);
+			cached = { jwks: (await response.json()) as JWKS, fetchedAt: Date.now() };
+		}
+		return cached.jwks.keys;
+	};
+
+	return async (token, _event, resource) => {
+		const [encodedHeader, encodedPayload, signature] = token.split('.');
+		if (!encodedHeader || !encodedPayload || !signature) {
+			return undefined;
+		}
+
+		const header = decodeJson(encodedHeader);
+		const alg = header.alg as string;
+		if (!algorithms[alg]) {
+			return undefined;
+		}
+
+		const keys = await getKeys();
+		const jwk = keys.find((key) =>
+			header.kid ? key.kid === header.kid : !key.alg || key.alg === alg
+		);
+		if (!jwk) {
+			return undefined;
+		}
+
+		const key = await crypto.subtle.importKey('jwk', jwk, algorithms[alg], false, ['verify']);
+		const valid = await crypto.subtle.verify(
+			verifyParams(alg),
+			key,
+			base64UrlDecode(signature),
+			new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+		);
+		if (!valid) {
+			return undefined;
+		}
+
+		const claims = decodeJson(encodedPayload);
+		const now = Date.now() / 1000;
+		const tolerance = options.clockTolerance ?? 0;
+		if (typeof claims.exp === 'number' && claims.exp + tolerance < now) {
+			return undefined;
+		}
+		if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+			return undefined;
+		}
+		if (options.issuer && !matches(claims.iss, options.issuer)) {
+			return undefined;
+		}
+		if (!matches(claims.aud, options.audience ?? resource)) {
+			return undefined;
+		}
+		// Sessions belong to the subject of the token that started them.
+		if (typeof claims.sub !== 'string' || !claims.sub) {
+			return undefined;
+		}
+
+		const scopes =
+			typeof claims.scope === 'string'
+				? claims.scope.split(' ').filter(Boolean)
+				: Array.isArray(claims.scp)
+					? (claims.scp as string[])
+					: [];
+		return {
+			subject: claims.sub,
+			scopes,
+			clientId: (claims.client_id ?? claims.azp) as string | undefined,
+			expiresAt: claims.exp as number | undefined,
+			claims
+		};
+	};
+};
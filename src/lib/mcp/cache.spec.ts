@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { cacheKey, cacheScope, canonicalize, InMemoryCacheStore, ResultCache } from './cache';
+import type { Session } from './session';
+import type { CallToolResult } from './types/spec';
+
+const session = { id: 'abc' } as Session;
+
+const text = (value: string): CallToolResult => ({ content: [{ type: 'text', text: value }] });
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('canonicalize', () => {
+	it('sorts the keys of nested objects but not arrays', () => {
+		expect(canonicalize({ b: 1, a: { d: [2, 1], c: null } })).toBe(
+			'{"a":{"c":null,"d":[2,1]},"b":1}'
+		);
+		expect(canonicalize(undefined)).toBe('null');
+	});
+});
+
+describe('cacheKey', () => {
+	it('depends on the tool, the canonical input and the scope', async () => {
+		const key = await cacheKey('price', { sku: 'a', currency: 'EUR' }, 'session:abc');
+
+		expect(key).toMatch(/^mcp-tool:price:session:abc:[0-9a-f]{64}$/);
+		expect(await cacheKey('price', { currency: 'EUR', sku: 'a' }, 'session:abc')).toBe(key);
+		expect(await cacheKey('price', { sku: 'a', currency: 'EUR' })).toMatch(
+			/^mcp-tool:price:[0-9a-f]{64}$/
+		);
+		expect(await cacheKey('cost', { sku: 'a', currency: 'EUR' }, 'session:abc')).not.toBe(key);
+	});
+});
+
+describe('cacheScope', () => {
+	it('scopes results to the session, the principal or nothing', () => {
+		const principal = { subject: 'alice', scopes: [], claims: {} };
+
+		expect(cacheScope({ ttl: 1 }, { session, principal })).toBe('session:abc');
+		expect(cacheScope({ ttl: 1, by: 'principal' }, { session, principal })).toBe('principal:alice');
+		expect(cacheScope({ ttl: 1, by: 'principal' }, { session })).toBe('session:abc');
+		expect(cacheScope({ ttl: 1, by: 'global' }, { session, principal })).toBeUndefined();
+	});
+});
+
+describe('InMemoryCacheStore', () => {
+	it('forgets entries once they can no longer be served', () => {
+		vi.useFakeTimers({ now: 0 });
+		const store = new InMemoryCacheStore();
+		store.set('key', { result: text('a'), freshUntil: 1_000, staleUntil: 2_000 });
+
+		expect(store.get('key')?.result).toEqual(text('a'));
+		vi.setSystemTime(2_000);
+		expect(store.get('key')).toBeUndefined();
+	});
+});
+
+describe('ResultCache', () => {
+	it('answers with stale results while refreshing them once in the background', async () => {
+		vi.useFakeTimers({ now: 0 });
+		const cache = new ResultCache(new InMemoryCacheStore());
+		const options = { ttl: 1, staleWhileRevalidate: 60 };
+		let refresh = () => {};
+		const compute = vi
+			.fn<() => Promise<CallToolResult>>()
+			.mockResolvedValueOnce(text('#1'))
+			.mockReturnValueOnce(new Promise((resolve) => (refresh = () => resolve(text('#2')))));
+
+		expect(await cache.get('key', options, compute)).toEqual(text('#1'));
+		vi.setSystemTime(1_000);
+		expect(await cache.get('key', options, compute)).toEqual(text('#1'));
+		expect(await cache.get('key', options, compute)).toEqual(text('#1'));
+		expect(compute).toHaveBeenCalledTimes(2);
+		refresh();
+		await vi.waitFor(async () => {
+			expect(await cache.get('key', options, compute)).toEqual(text('#2'));
+		});
+	});
+
+	it('never keeps error results', async () => {
+		const cache = new ResultCache(new InMemoryCacheStore());
+		let calls = 0;
+		const compute = async () => ({ ...text(`#${++calls}`), isError: true });
+
+		await cache.get('key', { ttl: 60 }, compute);
+		expect(await cache.get('key', { ttl: 60 }, compute)).toMatchObject(text('#2'));
+	});
+});
@@ -0,0 +1,157 @@
+import type { MaybePromise } from './types';
+import type { CallToolResult } from './types/spec';
+import type { Session } from './session';
+import type { Principal } from './auth';
+
+export type CacheEntry = {
+	result: CallToolResult;
+	/** Milliseconds since epoch after which the result is stale. */
+	freshUntil: number;
+	/** Milliseconds since epoch after which the stale result can no longer be served. */
+	staleUntil: number;
+};
+
+export interface CacheStore {
+	get: (key: string) => MaybePromise<CacheEntry | undefined>;
+	/** `ttl` is the number of seconds the entry must be kept, stale time included. */
+	set: (key: string, entry: CacheEntry, ttl: number) => MaybePromise<void>;
+	delete: (key: string) => MaybePromise<void>;
+}
+
+export type CacheOptions = {
+	/** Seconds a result is fresh for. */
+	ttl: number;
+	/**
+	 * Seconds a stale result is still answered with, while the tool runs again in the
+	 * background to refresh it.
+	 */
+	staleWhileRevalidate?: number;
+	/**
+	 * Who results are shared by: each session (default), each user when the server is protected,
+	 * or everyone. Shared results must not depend on who calls, e.g. on what middlewares add.
+	 */
+	by?: 'session' | 'principal' | 'global';
+	/** Where results are kept. Defaults to the store of the server. */
+	store?: CacheStore;
+};
+
+export class InMemoryCacheStore implements CacheStore {
+	private entries = new Map<string, CacheEntry>();
+
+	get = (key: string) => {
+		const entry = this.entries.get(key);
+		if (entry && entry.staleUntil <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry && structuredClone(entry);
+	};
+
+	set = (key: string, entry: CacheEntry) => {
+		this.entries.set(key, structuredClone(entry));
+	};
+
+	delete = (key: string) => {
+		this.entries.delete(key);
+	};
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+	return (
+		typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+	);
+};
+
+// JSON with sorted keys, so that the same input gives the same key whatever the order of its keys.
+export const canonicalize = (value: unknown) => {
+	return JSON.stringify(value ?? null, (_, item) =>
+		isPlainObject(item)
+			? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+			: item
+	);
+};
+
+// What the key of a result is scoped to, undefined when results are shared by everyone.
+export const cacheScope = (
+	{ by = 'session' }: CacheOptions,
+	context: { session: Session; principal?: Principal }
+) => {
+	if (by === 'global') {
+		return undefined;
+	}
+	if (by === 'principal' && context.principal) {
+		return `principal:${context.principal.subject}`;
+	}
+	return `session:${context.session.id}`;
+};
+
+export const cacheKey = async (tool: string, input: unknown, scope?: string) => {
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(canonicalize(input))
+	);
+	const hash = Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, '0')
+	).join('');
+	return ['mcp-tool', tool, ...(scope ? [scope] : []), hash].join(':');
+};
+
+/**
+ * Serves tool results from a store while they are fresh, or stale within the revalidation
+ * window, refreshing them in the background once. Error results are never kept.
+ */
+export class ResultCache {
+	private revalidating = new Set<string>();
+
+	constructor(readonly store: CacheStore) {}
+
+	private save = async (
+		store: CacheStore,
+		key: string,
+		options: CacheOptions,
+		result: CallToolResult
+	) => {
+		if (result.isError) {
+			return;
+		}
+		const now = Date.now();
+		const stale = options.staleWhileRevalidate ?? 0;
+		await store.set(
+			key,
+			{
+				result,
+				freshUntil: now + options.ttl * 1000,
+				staleUntil: now + (options.ttl + stale) * 1000
+			},
+			options.ttl + stale
+		);
+	};
+
+	get = async (
+		key: string,
+		options: CacheOptions,
+		compute: () => Promise<CallToolResult>
+	): Promise<CallToolResult> => {
+		const store = options.store ?? this.store;
+		const entry = await store.get(key);
+		const now = Date.now();
+
+		if (entry && entry.freshUntil > now) {
+			return entry.result;
+		}
+		if (entry && entry.staleUntil > now) {
+			if (!this.revalidating.has(key)) {
+				this.revalidating.add(key);
+				compute()
+					.then((result) => this.save(store, key, options, result))
+					.catch((err) => console.error('Failed to revalidate a cached tool result', err))
+					.finally(() => this.revalidating.delete(key));
+			}
+			return entry.result;
+		}
+
+		const result = await compute();
+		await this.save(store, key, options, result);
+		return result;
+	};
+}
@@ -0,0 +1,188 @@
+import type { SessionData, SessionStore } from './session';
+import type { CacheEntry, CacheStore } from './cache';
+
+// Minimal shapes of the Cloudflare bindings we rely on, so any stand-in implementing them
+// (e.g. a Map based fake in tests, or miniflare) can be used in place of the real thing.
+export interface KVNamespaceLike {
+	get: (key: string, type: 'json') => Promise<unknown>;
+	put: (key: string, value: string, options?: { expirationTtl?: number }) => Promise<void>;
+	delete: (key: string) => Promise<void>;
+}
+
+export interface CacheLike {
+	match: (request: Request) => Promise<Response | undefined>;
+	put: (request: Request, response: Response) => Promise<void>;
+	delete: (request: Request) => Promise<boolean>;
+}
+
+export interface DurableObjectStorageLike {
+	get: (key: string) => Promise<unknown>;
+	put: (key: string, value: unknown) => Promise<void>;
+	delete: (key: string) => Promise<boolean>;
+}
+
+export interface DurableObjectNamespaceLike {
+	idFromName: (name: string) => unknown;
+	get: (id: never) => { fetch: (request: Request) => Promise<Response> };
+}
+
+/**
+ * Stores sessions in Workers KV. KV is eventually consistent: a session created in one
+ * location can take a few seconds to be visible in others.
+ */
+export class KVSessionStore implements SessionStore {
+	constructor(
+		private namespace: KVNamespaceLike,
+		private options: {
+			prefix?: string;
+			/** Seconds before an untouched session expires. Minimum 60. */
+			ttl?: number;
+		} = {}
+	) {}
+
+	private key = (id: string) => `${this.options.prefix ?? 'mcp-session:'}${id}`;
+
+	get = async (id: string) => {
+		const session = await this.namespace.get(this.key(id), 'json');
+		return (session as SessionData | null) ?? undefined;
+	};
+
+	set = async (id: string, session: SessionData) => {
+		await this.namespace.put(this.key(id), JSON.stringify(session), {
+			expirationTtl: this.options.ttl
+		});
+	};
+
+	delete = async (id: string) => {
+		await this.namespace.delete(this.key(id));
+	};
+}
+
+/** Caches tool results in Workers KV, which keeps entries at least 60 seconds. */
+export class KVCacheStore implements CacheStore {
+	constructor(
+		private namespace: KVNamespaceLike,
+		private options: { prefix?: string } = {}
+	) {}
+
+	private key = (key: string) => `${this.options.prefix ?? ''}${key}`;
+
+	get = async (key: string) => {
+		const entry = await this.namespace.get(this.key(key), 'json');
+		return (entry as CacheEntry | null) ?? undefined;
+	};
+
+	set = async (key: string, entry: CacheEntry, ttl: number) => {
+		await this.namespace.put(this.key(key), JSON.stringify(entry), {
+			expirationTtl: Math.max(60, Math.ceil(ttl))
+		});
+	};
+
+	delete = async (key: string) => {
+		await this.namespace.delete(this.key(key));
+	};
+}
+
+/**
+ * Caches tool results with the Cache API, e.g. `caches.default`. Entries are only visible in the
+ * data center that stored them.
+ */
+export class CacheApiStore implements CacheStore {
+	constructor(
+		private cache: CacheLike,
+		private options: { baseUrl?: string } = {}
+	) {}
+
+	private request = (key: string) => {
+		return new Request(
+			`${this.options.baseUrl ?? 'https://mcp-cache.internal/'}${encodeURIComponent(key)}`
+		);
+	};
+
+	get = async (key: string) => {
+		const response = await this.cache.match(this.request(key));
+		return response ? ((await response.json()) as CacheEntry) : undefined;
+	};
+
+	set = async (key: string, entry: CacheEntry, ttl: number) => {
+		await this.cache.put(
+			this.request(key),
+			new Response(JSON.stringify(entry), {
+				headers: {
+					'Content-Type': 'application/json',
+					'Cache-Control': `max-age=${Math.ceil(ttl)}`
+				}
+			})
+		);
+	};
+
+	delete = async (key: string) => {
+		await this.cache.delete(this.request(key));
+	};
+}
+
+/**
+ * Stores each session in its own Durable Object, for strongly consistent sessions.
+ * The Durable Object class must answer with `handleSessionObject`:
+ *
+ * ```ts
+ * export class MCPSession extends DurableObject {
+ * 	fetch(request: Request) {
+ * 		return handleSessionObject(this.ctx.storage, request);
+ * 	}
+ * }
+ * ```
+ */
+export class DurableObjectSessionStore implements SessionStore {
+	constructor(private namespace: DurableObjectNamespaceLike) {}
+
+	private stub = (id: string) => this.namespace.get(this.namespace.idFromName(id) as never);
+
+	get = async (id: string) => {
+		const response = await this.stub(id).fetch(new Request('https://session/'));
+		if (response.status === 404) {
+			return undefined;
+		}
+		if (!response.ok) {
+			throw new Error(`Failed to load session ${id}: ${response.status}`);
+		}
+		return (await response.json()) as SessionData;
+	};
+
+	set = async (id: string, session: SessionData) => {
+		const response = await this.stub(id).fetch(
+			new Request('https://session/', { method: 'PUT', body: JSON.stringify(session) })
+		);
+		if (!response.ok) {
+			throw new Error(`Failed to save session ${id}: ${response.status}`);
+		}
+	};
+
+	delete = async (id: string) => {
+		const response = await this.stub(id).fetch(
+			new Request('https://session/', { method: 'DELETE' })
+		);
+		if (!response.ok) {
+			throw new Error(`Failed to delete session ${id}: ${response.status}`);
+		}
+	};
+}
+
+export const handleSessionObject = async (storage: DurableObjectStorageLike, request: Request) => {
+	switch (request.method) {
+		case 'GET': {
+			const session = await storage.get('session');
+			return session
+				? new Response(JSON.stringify(session), { headers: { 'Content-Type': 'application/json' } })
+				: new Response(null, { status: 404 });
+		}
+		case 'PUT':
+			await storage.put('session', await request.json());
+			return new Response(null, { status: 204 });
+		case 'DELETE':
+			await storage.delete('session');
+			return new Response(null, { status: 204 });
+		default:
+			return new Response(null, { status: 405 });
+	}
+};
@@ -0,0 +1,36 @@
+import type { MaybePromise } from './types';
+import type { CompleteResult } from './types/spec';
+import type { Session } from './session';
+
+/** The spec caps completion results to 100 values. */
+export const MAX_COMPLETION_VALUES = 100;
+
+export type CompletePayload = {
+	/** What the user typed so far. */
+	value: string;
+	/** The arguments or variables the user already filled in. */
+	arguments: Record<string, string>;
+	sessionId: string;
+	session: Session;
+};
+
+/** Suggests values for an argument of a prompt or a variable of a resource template. */
+export type CompleteFunction = (
+	payload: CompletePayload
+) => MaybePromise<string[] | { values: string[]; total?: number; hasMore?: boolean }>;
+
+export const complete = async (
+	fn: CompleteFunction,
+	payload: CompletePayload
+): Promise<CompleteResult> => {
+	const result = await fn(payload);
+	const { values, total, hasMore } = Array.isArray(result) ? { values: result } : result;
+	const truncated = values.length > MAX_COMPLETION_VALUES;
+	return {
+		completion: {
+			values: values.slice(0, MAX_COMPLETION_VALUES),
+			...(total !== undefined || truncated ? { total: total ?? values.length } : {}),
+			...(hasMore || truncated ? { hasMore: true } : {})
+		}
+	};
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import z from 'zod/v4';
+import { elicitResponse } from './elicitation';
+
+describe('elicitResponse', () => {
+	const schema = z.object({ guests: z.number() });
+
+	it('validates the content of accepted responses', async () => {
+		expect(await elicitResponse(schema, { action: 'accept', content: { guests: 4 } })).toEqual({
+			action: 'accept',
+			content: { guests: 4 }
+		});
+		await expect(
+			elicitResponse(schema, { action: 'accept', content: { guests: 'four' } })
+		).rejects.toMatchObject({
+			'~code': -32602,
+			'~message': expect.stringMatching(/^Invalid elicitation response: \/guests: /),
+			'~data': { issues: [{ path: '/guests', expected: 'number' }] }
+		});
+	});
+
+	it('passes declined and cancelled responses on without content', async () => {
+		expect(await elicitResponse(schema, { action: 'decline' })).toEqual({ action: 'decline' });
+		expect(await elicitResponse(schema, { action: 'cancel', content: { guests: 4 } })).toEqual({
+			action: 'cancel'
+		});
+	});
+});
@@ -0,0 +1,94 @@
+import type { JSONSchema7 } from 'json-schema';
+import { validateInput, type StandardSchemaV1 } from './types/standardSchema';
+import type { ElicitRequest, ElicitResult, PrimitiveSchemaDefinition } from './types/spec';
+import { toObjectJsonSchema } from './utils/toJsonSchema';
+
+type Primitive = string | number | boolean;
+
+/**
+ * Elicitation only asks for flat objects of strings, numbers, booleans and string enums.
+ * Other schemas resolve to an error message, so that passing them does not compile.
+ */
+export type ElicitationSchema<Schema extends StandardSchemaV1> =
+	StandardSchemaV1.InferOutput<Schema> extends { [key: string]: Primitive | undefined }
+		? Schema
+		: 'Elicitation schemas must be flat objects of strings, numbers, booleans or enums';
+
+export type ElicitParams<Schema extends StandardSchemaV1> = {
+	/** The message shown to the user along with the form. */
+	message: string;
+	schema: Schema & ElicitationSchema<Schema>;
+};
+
+export type ElicitResponse<Content> =
+	| { action: 'accept'; content: Content }
+	| { action: 'decline' | 'cancel'; content?: undefined };
+
+const STRING_FORMATS = ['email', 'uri', 'date', 'date-time'];
+
+const pick = (schema: JSONSchema7, keys: (keyof JSONSchema7)[]) => {
+	return Object.fromEntries(
+		keys.filter((key) => schema[key] !== undefined).map((key) => [key, schema[key]])
+	);
+};
+
+// Libraries describe enums either with `enum` or with a union of constants.
+const enumValues = (schema: JSONSchema7) => {
+	const values =
+		schema.enum ?? (schema.anyOf ?? schema.oneOf)?.map((option) => (option as JSONSchema7).const);
+	return values?.every((value) => typeof value === 'string') ? (values as string[]) : undefined;
+};
+
+const toPrimitive = (name: string, schema: JSONSchema7): PrimitiveSchemaDefinition => {
+	const annotations = pick(schema, ['title', 'description']);
+	const values = enumValues(schema);
+	if (values) {
+		return { type: 'string', ...annotations, enum: values };
+	}
+	switch (schema.type) {
+		case 'string':
+			return {
+				type: 'string',
+				...annotations,
+				...pick(schema, ['minLength', 'maxLength']),
+				...(STRING_FORMATS.includes(schema.format) ? { format: schema.format } : {})
+			} as PrimitiveSchemaDefinition;
+		case 'number':
+		case 'integer':
+			return { type: schema.type, ...annotations, ...pick(schema, ['minimum', 'maximum']) };
+		case 'boolean':
+			return { type: 'boolean', ...annotations, ...pick(schema, ['default']) };
+	}
+	throw new Error(`Elicitation does not support the schema of "${name}"`);
+};
+
+/** Converts a schema to the restricted JSON schema elicitation requests carry. */
+export const toElicitationSchema = (
+	schema: StandardSchemaV1
+): ElicitRequest['params']['requestedSchema'] => {
+	const jsonSchema = toObjectJsonSchema(schema, { io: 'input' });
+	return {
+		type: 'object',
+		properties: Object.fromEntries(
+			Object.entries(jsonSchema.properties ?? {}).map(([name, property]) => [
+				name,
+				toPrimitive(name, property as JSONSchema7)
+			])
+		),
+		...(jsonSchema.required?.length ? { required: jsonSchema.required } : {})
+	};
+};
+
+/** Validates what the user submitted against the schema that was asked for. */
+export const elicitResponse = async <Schema extends StandardSchemaV1>(
+	schema: Schema,
+	result: ElicitResult
+): Promise<ElicitResponse<StandardSchemaV1.InferOutput<Schema>>> => {
+	if (result.action !== 'accept') {
+		return { action: result.action === 'decline' ? 'decline' : 'cancel' };
+	}
+	return {
+		action: 'accept',
+		content: await validateInput(schema, result.content ?? {}, 'Invalid elicitation response')
+	};
+};
@@ -3,6 +3,7 @@ import { INVALID_PARAMS, METHOD_NOT_FOUND } from './types/spec';
 import { INVALID_REQUEST } from './types/spec';
 import { PARSE_ERROR } from './types/spec';
 import { RESOURCE_NOT_FOUND } from './types/spec';
+import type { JSONRPCError, RequestId } from './types/spec';
 
 type MCPErrorCode =
 	| 'PARSE_ERROR'
@@ -10,7 +11,9 @@ type MCPErrorCode =
 	| 'INVALID_REQUEST'
 	| 'METHOD_NOT_FOUND'
 	| 'INVALID_PARAMS'
-	| 'INTERNAL_ERROR';
+	| 'INTERNAL_ERROR'
+	| 'REQUEST_TIMEOUT'
+	| 'RATE_LIMITED';
 
 const mcpErrors: Record<MCPErrorCode, number> = {
 	PARSE_ERROR: PARSE_ERROR,
@@ -18,7 +21,11 @@ const mcpErrors: Record<MCPErrorCode, number> = {
 	INVALID_REQUEST: INVALID_REQUEST,
 	METHOD_NOT_FOUND: METHOD_NOT_FOUND,
 	INVALID_PARAMS: INVALID_PARAMS,
-	INTERNAL_ERROR: INTERNAL_ERROR
+	INTERNAL_ERROR: INTERNAL_ERROR,
+	// Not part of the spec, the code the official SDKs use.
+	REQUEST_TIMEOUT: -32001,
+	// Not part of the spec either, after the HTTP status.
+	RATE_LIMITED: -32029
 };
 
 const defaultErrorMessages: Record<MCPErrorCode, string> = {
@@ -27,7 +34,9 @@ const defaultErrorMessages: Record<MCPErrorCode, string> = {
 	INVALID_REQUEST: 'Invalid request',
 	METHOD_NOT_FOUND: 'Method not found',
 	INVALID_PARAMS: 'Invalid parameters',
-	INTERNAL_ERROR: 'Internal error'
+	INTERNAL_ERROR: 'Internal error',
+	REQUEST_TIMEOUT: 'Request timed out',
+	RATE_LIMITED: 'Rate limit exceeded'
 };
 
 export class MCPError extends Error {
@@ -45,24 +54,28 @@ export class MCPError extends Error {
 export const mcpError = (code: MCPErrorCode, message?: string, data?: unknown): MCPError =>
 	new MCPError(mcpErrors[code], message || defaultErrorMessages[code], data);
 
-export const errorResponse = (error: MCPErrorCode | MCPError, sessionId: string) => {
+export const errorMessage = (
+	error: MCPErrorCode | MCPError,
+	id: RequestId | null = null
+): Omit<JSONRPCError, 'id'> & { id: RequestId | null } => {
 	const ERROR = error instanceof MCPError ? error : mcpError(error);
-	return new Response(
-		JSON.stringify({
-			jsonrpc: '2.0',
-			id: null,
-			error: {
-				code: ERROR['~code'],
-				message: ERROR['~message'],
-				data: ERROR['~data']
-			}
-		}),
-		{
-			headers: {
-				'Content-Type': 'application/json',
-				'Mcp-Session-Id': sessionId
-			},
-			status: 400
+	return {
+		jsonrpc: '2.0',
+		id,
+		error: {
+			code: ERROR['~code'],
+			message: ERROR['~message'],
+			data: ERROR['~data']
 		}
-	);
+	};
+};
+
+export const errorResponse = (error: MCPErrorCode | MCPError, sessionId?: string, status = 400) => {
+	return new Response(JSON.stringify(errorMessage(error)), {
+		headers: {
+			'Content-Type': 'application/json',
+			...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+		},
+		status
+	});
 };
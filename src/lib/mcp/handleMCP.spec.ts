@@ -0,0 +1,2088 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+	handleMCP,
+	jwtVerifier,
+	mcpServer,
+	prompt,
+	Server,
+	middleware,
+	resource,
+	tool,
+	RESOURCE_NOT_FOUND,
+	type AuthConfig
+} from '$lib/mcp';
+import type { MCPServer } from '$lib/mcp/types';
+import { InMemorySessionStore, type SessionData } from '$lib/mcp/session';
+import z from 'zod/v4';
+import {
+	CacheApiStore,
+	DurableObjectSessionStore,
+	handleSessionObject,
+	KVCacheStore,
+	KVSessionStore,
+	type CacheLike,
+	type DurableObjectNamespaceLike,
+	type KVNamespaceLike
+} from '$lib/mcp/cloudflare';
+
+const JSON_ONLY = 'application/json';
+const JSON_AND_SSE = 'application/json, text/event-stream';
+
+const createClient = (server: Partial<MCPServer> | Server = {}) => {
+	const handle = handleMCP(
+		server instanceof Server ? server : { name: 'test', version: '1.0.0', ...server }
+	);
+	return (init: RequestInit & { headers?: Record<string, string> }, path = '/mcp') => {
+		const url = new URL(path, 'http://localhost');
+		const event = { url, request: new Request(url, init) } as RequestEvent;
+		return handle({ event, resolve: () => new Response('not mcp') }) as Promise<Response>;
+	};
+};
+
+const post = (body: unknown, headers: Record<string, string> = {}) => ({
+	method: 'POST',
+	body: JSON.stringify(body),
+	headers: { 'Content-Type': 'application/json', Accept: JSON_ONLY, ...headers }
+});
+
+type Call = ReturnType<typeof createClient>;
+
+const initialize = async (
+	call: Call,
+	protocolVersion = '2025-06-18',
+	headers: Record<string, string> = {}
+) => {
+	const response = await call(
+		post(
+			{
+				jsonrpc: '2.0',
+				id: 0,
+				method: 'initialize',
+				params: {
+					protocolVersion,
+					capabilities: { sampling: {} },
+					clientInfo: { name: 'client', version: '1.0.0' }
+				}
+			},
+			headers
+		)
+	);
+	return response.headers.get('Mcp-Session-Id')!;
+};
+
+// Calls a tool in a new session, or in the one named by the `Mcp-Session-Id` header.
+const callTool = async (
+	call: Call,
+	name: string,
+	args?: unknown,
+	headers: Record<string, string> = {}
+) => {
+	const sessionId = headers['Mcp-Session-Id'] ?? (await initialize(call));
+	const response = await call(
+		post(
+			{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } },
+			{ ...headers, 'Mcp-Session-Id': sessionId }
+		)
+	);
+	return (await response.json()).result;
+};
+
+const readEvents = async (response: Response) => {
+	const text = await response.text();
+	return text
+		.split('\n\n')
+		.filter(Boolean)
+		.map((event) =>
+			JSON.parse(
+				event
+					.split('\n')
+					.find((l) => l.startsWith('data: '))!
+					.slice(6)
+			)
+		);
+};
+
+const readChunk = async (reader: ReadableStreamDefaultReader<Uint8Array>) => {
+	const { value } = await reader.read();
+	return new TextDecoder().decode(value);
+};
+
+describe('Streamable HTTP transport', () => {
+	it('answers with JSON when the client does not accept event streams', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId })
+		);
+
+		expect(response.headers.get('Content-Type')).toBe('application/json');
+		expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+	});
+
+	it('streams the response when the client accepts event streams', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'ping' },
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		expect(await readEvents(response)).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+	});
+
+	it('answers with an error when the event store fails', async () => {
+		const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const call = createClient({
+			eventStore: {
+				storeEvent: () => Promise.reject(new Error('Store unavailable')),
+				replayEventsAfter: () => undefined
+			}
+		});
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'ping' },
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(await readEvents(response)).toEqual([
+			{ jsonrpc: '2.0', id: 1, error: { code: -32603, message: 'Internal error' } }
+		]);
+		expect(errors).toHaveBeenCalled();
+		errors.mockRestore();
+	});
+
+	it('answers with an error when the event store fails to replay a stream', async () => {
+		const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const call = createClient({
+			eventStore: {
+				storeEvent: async () => 'event',
+				replayEventsAfter: () => Promise.reject(new Error('Store unavailable'))
+			}
+		});
+		const sessionId = await initialize(call);
+		const response = await call({
+			method: 'GET',
+			headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId, 'Last-Event-ID': 'x' }
+		});
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({ error: { code: -32603 } });
+		expect(errors).toHaveBeenCalled();
+		errors.mockRestore();
+	});
+
+	it('prefers JSON when the server is configured for it', async () => {
+		const call = createClient({ jsonResponse: true });
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'ping' },
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(response.headers.get('Content-Type')).toBe('application/json');
+	});
+
+	it('rejects GET requests that do not accept event streams', async () => {
+		const call = createClient();
+		const response = await call({ method: 'GET', headers: { Accept: JSON_ONLY } });
+
+		expect(response.status).toBe(405);
+	});
+
+	it('opens a standalone stream on GET', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call({
+			method: 'GET',
+			headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		await response.body?.cancel();
+	});
+
+	it('lets requests outside /mcp through', async () => {
+		const call = createClient();
+		const response = await call({ method: 'GET' }, '/other');
+
+		expect(await response.text()).toBe('not mcp');
+	});
+});
+
+describe('Sessions', () => {
+	it('creates a session on initialize and remembers the client', async () => {
+		const sessionStore = new InMemorySessionStore();
+		const call = createClient({ sessionStore });
+		const sessionId = await initialize(call);
+
+		expect(sessionId).toBeTruthy();
+		expect(await sessionStore.get(sessionId)).toMatchObject({
+			id: sessionId,
+			protocolVersion: '2025-06-18',
+			clientInfo: { name: 'client', version: '1.0.0' },
+			clientCapabilities: { sampling: {} }
+		});
+	});
+
+	it('requires a session id outside of initialization', async () => {
+		const call = createClient();
+		const response = await call(post({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+
+		expect(response.status).toBe(400);
+	});
+
+	it('answers 404 for unknown sessions', async () => {
+		const call = createClient();
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': 'unknown' })
+		);
+
+		expect(response.status).toBe(404);
+	});
+
+	it('terminates sessions on DELETE', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const deleted = await call({ method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId })
+		);
+
+		expect(deleted.status).toBe(200);
+		expect(response.status).toBe(404);
+	});
+
+	it('lets handlers read and write session data', async () => {
+		const count = tool('Counts calls').handle(async ({ session }) => {
+			const count = (session.get<number>('count') ?? 0) + 1;
+			await session.set('count', count);
+			return `${count}`;
+		});
+		const call = createClient({ tools: { count } });
+		const sessionId = await initialize(call);
+		const callTool = async () => {
+			const response = await call(
+				post(
+					{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'count' } },
+					{ 'Mcp-Session-Id': sessionId }
+				)
+			);
+			return (await response.json()).result.content[0].text;
+		};
+
+		expect(await callTool()).toBe('1');
+		expect(await callTool()).toBe('2');
+	});
+
+	it('persists sessions in KV', async () => {
+		const kv = new Map<string, string>();
+		const namespace: KVNamespaceLike = {
+			get: async (key) => (kv.has(key) ? JSON.parse(kv.get(key)!) : null),
+			put: async (key, value) => void kv.set(key, value),
+			delete: async (key) => void kv.delete(key)
+		};
+		const call = createClient({ sessionStore: new KVSessionStore(namespace) });
+		const sessionId = await initialize(call);
+
+		expect(kv.has(`mcp-session:${sessionId}`)).toBe(true);
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId })
+		);
+		expect(response.status).toBe(200);
+	});
+	it('expires untouched sessions and forgets what the server kept for them', async () => {
+		const server = mcpServer({
+			name: 'test',
+			version: '1.0.0',
+			sessionStore: new InMemorySessionStore({ ttl: 0.05 })
+		});
+		const call = createClient(server);
+		const sessionId = await initialize(call);
+		await server.tools.add(
+			'extra',
+			tool('Extra').handle(() => 'extra'),
+			sessionId
+		);
+		expect(Object.keys(server.tools.list(sessionId))).toEqual(['extra']);
+
+		await new Promise((resolve) => setTimeout(resolve, 80));
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId })
+		);
+		expect(response.status).toBe(404);
+		expect(server.tools.list(sessionId)).toEqual({});
+	});
+
+	it('persists sessions in Durable Objects', async () => {
+		const objects = new Map<string, Map<string, unknown>>();
+		const namespace: DurableObjectNamespaceLike = {
+			idFromName: (name) => name,
+			get: (id) => {
+				const storage = objects.get(id) ?? new Map<string, unknown>();
+				objects.set(id, storage);
+				return {
+					fetch: (request) =>
+						handleSessionObject(
+							{
+								get: async (key) => storage.get(key),
+								put: async (key, value) => void storage.set(key, value),
+								delete: async (key) => storage.delete(key)
+							},
+							request
+						)
+				};
+			}
+		};
+		const call = createClient({ sessionStore: new DurableObjectSessionStore(namespace) });
+		const sessionId = await initialize(call);
+		const ping = () =>
+			call(post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId }));
+
+		expect(objects.get(sessionId)?.get('session')).toMatchObject({ id: sessionId });
+		expect((await ping()).status).toBe(200);
+		await call({ method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+		expect(objects.get(sessionId)?.has('session')).toBe(false);
+		expect((await ping()).status).toBe(404);
+	});
+
+	it('fails when a Durable Object does not store the session', async () => {
+		const store = new DurableObjectSessionStore({
+			idFromName: (name) => name,
+			get: () => ({ fetch: async () => new Response(null, { status: 500 }) })
+		});
+
+		await expect(store.set('id', {} as SessionData)).rejects.toThrow(
+			'Failed to save session id: 500'
+		);
+		await expect(store.delete('id')).rejects.toThrow('Failed to delete session id: 500');
+	});
+});
+
+describe('JSON-RPC', () => {
+	it('answers batches with an array of responses', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				[
+					{ jsonrpc: '2.0', id: 1, method: 'ping' },
+					{ jsonrpc: '2.0', method: 'notifications/initialized' },
+					{ jsonrpc: '2.0', id: 'two', method: 'ping' }
+				],
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(await response.json()).toEqual([
+			{ jsonrpc: '2.0', id: 1, result: {} },
+			{ jsonrpc: '2.0', id: 'two', result: {} }
+		]);
+	});
+
+	it('accepts notifications with 202 and no body', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId })
+		);
+
+		expect(response.status).toBe(202);
+		expect(await response.text()).toBe('');
+	});
+
+	it('echoes the request id in errors', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 7, method: 'tools/unknown' }, { 'Mcp-Session-Id': sessionId })
+		);
+
+		expect(await response.json()).toMatchObject({ id: 7, error: { code: -32601 } });
+	});
+
+	it('rejects messages that are not JSON-RPC 2.0', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post([{ jsonrpc: '1.0', id: 3, method: 'ping' }, { id: 4 }], { 'Mcp-Session-Id': sessionId })
+		);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject([
+			{ id: 3, error: { code: -32600 } },
+			{ id: 4, error: { code: -32600 } }
+		]);
+	});
+
+	it('answers invalid messages before requiring a session', async () => {
+		const call = createClient();
+		const response = await call(post({ jsonrpc: '1.0', id: 7, method: 'ping' }));
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ id: 7, error: { code: -32600 } });
+	});
+
+	it('rejects requests missing the params their method requires, or with the wrong types', async () => {
+		const call = createClient({ tools: { echo: tool('Echo').handle(() => 'echo') } });
+		const sessionId = await initialize(call);
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'tools/call' }, { 'Mcp-Session-Id': sessionId })
+		);
+		const mistyped = await call(
+			post(
+				{ jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 5 } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(await response.json()).toMatchObject({
+			id: 1,
+			error: { code: -32602, message: 'Invalid params: missing name' }
+		});
+		expect(await mistyped.json()).toMatchObject({
+			id: 2,
+			error: { code: -32602, message: 'Invalid params: uri must be a string' }
+		});
+	});
+
+	it('rejects initialize inside a batch', async () => {
+		const call = createClient();
+		const response = await call(
+			post([
+				{ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+				{ jsonrpc: '2.0', id: 2, method: 'ping' }
+			])
+		);
+
+		expect(response.status).toBe(400);
+	});
+});
+
+describe('Method dispatch', () => {
+	const request = async (call: Call, method: string, params?: unknown) => {
+		const sessionId = await initialize(call);
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method, params }, { 'Mcp-Session-Id': sessionId })
+		);
+		return response.json();
+	};
+
+	it('answers METHOD_NOT_FOUND for unknown methods and parent paths', async () => {
+		const call = createClient();
+
+		expect(await request(call, 'tools')).toMatchObject({ error: { code: -32601 } });
+		expect(await request(call, 'resources/templates')).toMatchObject({ error: { code: -32601 } });
+		expect(await request(call, 'constructor')).toMatchObject({ error: { code: -32601 } });
+	});
+
+	it('answers INVALID_PARAMS for unknown tools', async () => {
+		const call = createClient({ tools: { known: tool('Known').handle(() => 'ok') } });
+
+		expect(await request(call, 'tools/call', { name: 'unknown' })).toMatchObject({
+			error: { code: -32602, message: 'Unknown tool: unknown' }
+		});
+	});
+
+	it('dispatches custom methods and overrides built-ins', async () => {
+		const call = createClient({
+			methods: {
+				ping: () => ({ pong: true }),
+				'experimental/echo': (params, { session }) => ({ params, sessionId: session.id })
+			}
+		});
+
+		expect(await request(call, 'ping')).toMatchObject({ result: { pong: true } });
+		expect(await request(call, 'experimental/echo', { a: 1 })).toMatchObject({
+			result: { params: { a: 1 }, sessionId: expect.any(String) }
+		});
+	});
+});
+
+describe('Protocol versions', () => {
+	const echo = tool('Echoes')
+		.output(z.object({ message: z.string() }))
+		.handle(({ client }) => ({ message: client.protocolVersion }));
+
+	const callEcho = async (call: Call, sessionId: string, headers: Record<string, string> = {}) => {
+		return call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'echo' } },
+				{ 'Mcp-Session-Id': sessionId, ...headers }
+			)
+		);
+	};
+
+	it('negotiates the version requested by the client when supported', async () => {
+		const sessionStore = new InMemorySessionStore();
+		const call = createClient({ sessionStore });
+
+		const supported = await initialize(call, '2024-11-05');
+		const unsupported = await initialize(call, '1999-01-01');
+
+		expect((await sessionStore.get(supported))?.protocolVersion).toBe('2024-11-05');
+		expect((await sessionStore.get(unsupported))?.protocolVersion).toBe('2025-06-18');
+	});
+
+	it('rejects requests announcing another protocol version', async () => {
+		const call = createClient({ tools: { echo } });
+		const sessionId = await initialize(call);
+
+		expect((await callEcho(call, sessionId, { 'MCP-Protocol-Version': '2025-06-18' })).status).toBe(
+			200
+		);
+		expect((await callEcho(call, sessionId, { 'MCP-Protocol-Version': '2024-11-05' })).status).toBe(
+			400
+		);
+	});
+
+	it('only sends structured output to clients that support it', async () => {
+		const call = createClient({ tools: { echo } });
+
+		const recent = await (await callEcho(call, await initialize(call))).json();
+		const old = await (await callEcho(call, await initialize(call, '2025-03-26'))).json();
+
+		expect(recent.result.structuredContent).toEqual({ message: '2025-06-18' });
+		expect(old.result.structuredContent).toBeUndefined();
+		expect(old.result.content[0].text).toBe('{"message":"2025-03-26"}');
+	});
+});
+
+describe('Tool middleware', () => {
+	const auth = middleware(async ({ event, error, next }) => {
+		const token = event.request.headers.get('Authorization');
+		if (!token) {
+			return error('Unauthorized');
+		}
+		return next({ user: { name: token } });
+	});
+
+	const whoami = tool('Who am I')
+		.input(z.object({ greeting: z.string() }))
+		.use(auth)
+		.handle(({ input, user }) => `${input.greeting} ${user.name}`);
+
+	it('enriches the handler payload with the context added by middlewares', async () => {
+		const call = createClient({ tools: { whoami } });
+		const result = await callTool(call, 'whoami', { greeting: 'Hello' }, { Authorization: 'Ada' });
+
+		expect(result.content[0].text).toBe('Hello Ada');
+	});
+
+	it('short-circuits the handler', async () => {
+		const call = createClient({ tools: { whoami } });
+		const result = await callTool(call, 'whoami', { greeting: 'Hello' });
+
+		expect(result).toEqual({ content: [{ type: 'text', text: 'Unauthorized' }], isError: true });
+	});
+
+	it('runs server middlewares around tool middlewares and wraps results', async () => {
+		const steps: string[] = [];
+		const timed = tool('Timed')
+			.use(async ({ next }) => {
+				steps.push('tool');
+				return next();
+			})
+			.handle(() => {
+				steps.push('handler');
+				return 'done';
+			});
+		const call = createClient({
+			tools: { timed },
+			middleware: [
+				async ({ next }) => {
+					steps.push('server');
+					const result = await next();
+					return { ...result, _meta: { duration: 0 } };
+				}
+			]
+		});
+
+		expect(await callTool(call, 'timed')).toMatchObject({ _meta: { duration: 0 } });
+		expect(steps).toEqual(['server', 'tool', 'handler']);
+	});
+});
+
+describe('Authorization', () => {
+	const encode = (value: object | ArrayBuffer) => {
+		const bytes =
+			value instanceof ArrayBuffer
+				? new Uint8Array(value)
+				: new TextEncoder().encode(JSON.stringify(value));
+		return btoa(String.fromCharCode(...bytes))
+			.replace(/\+/g, '-')
+			.replace(/\//g, '_')
+			.replace(/=+$/, '');
+	};
+
+	const setup = async () => {
+		const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+			{ name: 'ECDSA', namedCurve: 'P-256' },
+			true,
+			['sign', 'verify']
+		)) as CryptoKeyPair;
+		const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+
+		const sign = async (claims: Record<string, unknown>) => {
+			const input = `${encode({ alg: 'ES256', kid: 'key' })}.${encode({
+				iss: 'https://auth.example.com',
+				aud: 'http://localhost/mcp',
+				exp: Math.floor(Date.now() / 1000) + 60,
+				...claims
+			})}`;
+			const signature = await crypto.subtle.sign(
+				{ name: 'ECDSA', hash: 'SHA-256' },
+				privateKey,
+				new TextEncoder().encode(input)
+			);
+			return `${input}.${encode(signature)}`;
+		};
+
+		const auth: AuthConfig = {
+			authorizationServers: ['https://auth.example.com'],
+			scopesSupported: ['notes:read', 'notes:write'],
+			verifyToken: jwtVerifier({
+				jwks: { keys: [{ ...jwk, kid: 'key', alg: 'ES256' }] },
+				issuer: 'https://auth.example.com'
+			})
+		};
+
+		const whoami = tool('Who am I').handle(({ principal }) => principal?.subject);
+		const write = tool('Write a note')
+			.scopes('notes:write')
+			.handle(() => 'written');
+		const call = createClient({ auth, tools: { whoami, write } });
+		return { call, sign };
+	};
+
+	it('serves the protected resource metadata', async () => {
+		const { call } = await setup();
+		const response = await call({ method: 'GET' }, '/.well-known/oauth-protected-resource/mcp');
+
+		expect(await response.json()).toEqual({
+			resource: 'http://localhost/mcp',
+			authorization_servers: ['https://auth.example.com'],
+			bearer_methods_supported: ['header'],
+			scopes_supported: ['notes:read', 'notes:write']
+		});
+	});
+
+	it('challenges requests without a valid token', async () => {
+		const { call, sign } = await setup();
+		const missing = await call(post({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+		expect(missing.status).toBe(401);
+		expect(missing.headers.get('WWW-Authenticate')).toBe(
+			'Bearer resource_metadata="http://localhost/.well-known/oauth-protected-resource/mcp"'
+		);
+
+		const expired = await sign({ sub: 'user', exp: 0 });
+		const invalid = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { Authorization: `Bearer ${expired}` })
+		);
+		expect(invalid.status).toBe(401);
+		expect(invalid.headers.get('WWW-Authenticate')).toContain('error="invalid_token"');
+	});
+
+	it('rejects tokens issued for another server or without a subject', async () => {
+		const { call, sign } = await setup();
+		const ping = async (claims: Record<string, unknown>) => {
+			const token = await sign(claims);
+			return call(
+				post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { Authorization: `Bearer ${token}` })
+			);
+		};
+
+		expect((await ping({ sub: 'user', aud: 'https://other.example.com/mcp' })).status).toBe(401);
+		expect((await ping({ sub: 'user', aud: undefined })).status).toBe(401);
+		expect((await ping({})).status).toBe(401);
+		expect((await ping({ sub: 42 })).status).toBe(401);
+		expect((await ping({ sub: 'user', aud: ['http://localhost/mcp'] })).status).not.toBe(401);
+	});
+
+	it('gives tools the principal of the token and enforces their scopes', async () => {
+		const { call, sign } = await setup();
+		const headers = { Authorization: `Bearer ${await sign({ sub: 'user', scope: 'notes:read' })}` };
+		const sessionId = await initialize(call, '2025-06-18', headers);
+		const callTool = (name: string) =>
+			call(
+				post(
+					{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name } },
+					{ ...headers, 'Mcp-Session-Id': sessionId }
+				)
+			);
+
+		expect((await (await callTool('whoami')).json()).result.content[0].text).toBe('user');
+
+		const forbidden = await callTool('write');
+		expect(forbidden.status).toBe(403);
+		expect(forbidden.headers.get('WWW-Authenticate')).toContain(
+			'error="insufficient_scope", error_description="The access token lacks the scopes this tool requires", scope="notes:write"'
+		);
+	});
+
+	it('answers tool calls without params before checking scopes', async () => {
+		const { call, sign } = await setup();
+		const headers = { Authorization: `Bearer ${await sign({ sub: 'user' })}` };
+		const sessionId = await initialize(call, '2025-06-18', headers);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'tools/call' },
+				{ ...headers, 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(await response.json()).toMatchObject({ id: 1, error: { code: -32602 } });
+	});
+
+	it('keeps sessions to the user who started them', async () => {
+		const { call, sign } = await setup();
+		const sessionId = await initialize(call, '2025-06-18', {
+			Authorization: `Bearer ${await sign({ sub: 'alice' })}`
+		});
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'ping' },
+				{ Authorization: `Bearer ${await sign({ sub: 'bob' })}`, 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect(response.status).toBe(404);
+	});
+});
+
+describe('Progress and cancellation', () => {
+	const slow = tool('Waits until cancelled').handle(async ({ signal, progress }) => {
+		await progress(1, 2, 'Started');
+		await new Promise((resolve) => signal.addEventListener('abort', resolve));
+		return `aborted: ${signal.reason}`;
+	});
+
+	const callSlow = (call: Call, sessionId: string, meta?: object) =>
+		call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: 7,
+					method: 'tools/call',
+					params: { name: 'slow', ...(meta ? { _meta: meta } : {}) }
+				},
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+	it('sends progress notifications tied to the progress token', async () => {
+		const call = createClient({ tools: { slow } });
+		const sessionId = await initialize(call);
+		const reader = (await callSlow(call, sessionId, { progressToken: 'token' })).body!.getReader();
+
+		expect(await readChunk(reader)).toContain(
+			'{"jsonrpc":"2.0","method":"notifications/progress","params":{"progressToken":"token","progress":1,"total":2,"message":"Started"}}'
+		);
+		await reader.cancel();
+	});
+
+	it('aborts the call when the client cancels it, without answering', async () => {
+		let reason: unknown;
+		const waiting = tool('Waits until cancelled').handle(async ({ signal }) => {
+			await new Promise((resolve) => signal.addEventListener('abort', resolve));
+			reason = signal.reason;
+			return 'too late';
+		});
+		const call = createClient({ tools: { slow: waiting } });
+		const sessionId = await initialize(call);
+		const response = await callSlow(call, sessionId);
+
+		const cancel = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					method: 'notifications/cancelled',
+					params: { requestId: 7, reason: 'User stopped' }
+				},
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		expect(cancel.status).toBe(202);
+		expect(await readEvents(response)).toEqual([]);
+		expect(reason).toBe('User stopped');
+	});
+
+	it('aborts the call when the client does not resume a dropped stream in time', async () => {
+		let aborted = false;
+		const waiting = tool('Waits until cancelled').handle(async ({ signal }) => {
+			await new Promise((resolve) => signal.addEventListener('abort', resolve));
+			aborted = true;
+		});
+		const call = createClient({ tools: { slow: waiting }, reconnectTimeout: 20 });
+		const sessionId = await initialize(call);
+
+		await (await callSlow(call, sessionId)).body!.cancel();
+		expect(aborted).toBe(false);
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(aborted).toBe(true);
+	});
+
+	it('keeps answering a dropped stream the client resumes', async () => {
+		let finish: () => void = () => {};
+		const resumable = tool('Reports progress').handle(async ({ progress }) => {
+			await progress(1, 2);
+			await new Promise<void>((resolve) => (finish = resolve));
+			return 'done';
+		});
+		const call = createClient({ tools: { slow: resumable } });
+		const sessionId = await initialize(call);
+		const reader = (await callSlow(call, sessionId, { progressToken: 'token' })).body!.getReader();
+		const lastEventId = (await readChunk(reader)).match(/^id: (.+)$/m)![1];
+		await reader.cancel();
+
+		const resumed = await call({
+			method: 'GET',
+			headers: {
+				Accept: 'text/event-stream',
+				'Mcp-Session-Id': sessionId,
+				'Last-Event-ID': lastEventId
+			}
+		});
+		finish();
+		expect(await readEvents(resumed)).toEqual([
+			{ jsonrpc: '2.0', id: 7, result: { content: [{ type: 'text', text: 'done' }] } }
+		]);
+	});
+});
+
+describe('Structured output', () => {
+	const weather = z.object({ city: z.string(), temperature: z.number() });
+
+	it('validates the output and sends it as structured content', async () => {
+		const forecast = tool('Forecast')
+			.input(z.object({ city: z.string() }))
+			.output(weather, { text: ({ city, temperature }) => `${temperature}°C in ${city}` })
+			.handle(({ input }) => ({ city: input.city, temperature: 21, humidity: 0.4 }));
+		const call = createClient({ tools: { forecast } });
+
+		expect(await callTool(call, 'forecast', { city: 'Paris' })).toEqual({
+			content: [{ type: 'text', text: '21°C in Paris' }],
+			structuredContent: { city: 'Paris', temperature: 21 }
+		});
+	});
+
+	it('handles invalid outputs as configured', async () => {
+		const invalid = () => ({ city: 'Paris', temperature: 'warm' }) as never;
+		const strict = tool('Forecast').output(weather).handle(invalid);
+		const warn = tool('Forecast').output(weather, { validation: 'warn' }).handle(invalid);
+		const strip = tool('Forecast').output(weather, { validation: 'strip' }).handle(invalid);
+		const call = createClient({ tools: { strict, warn, strip } });
+
+		expect(await callTool(call, 'strict')).toMatchObject({ isError: true });
+		expect(await callTool(call, 'warn')).toMatchObject({
+			structuredContent: { city: 'Paris', temperature: 'warm' }
+		});
+		expect(await callTool(call, 'strip')).toEqual({
+			content: [{ type: 'text', text: '{"city":"Paris","temperature":"warm"}' }]
+		});
+	});
+
+	it('types the handler return after the output schema', () => {
+		const forecast = tool('Forecast')
+			.output(weather)
+			// @ts-expect-error temperature must be a number
+			.handle(() => ({ city: 'Paris', temperature: 'warm' }));
+
+		expect(forecast['~config'].output).toBe(weather);
+	});
+});
+
+describe('Tool results', () => {
+	it('combines several kinds of content in one result', async () => {
+		const report = tool('Report').handle(({ result }) =>
+			result()
+				.text('Summary', { audience: ['user'], priority: 1 })
+				.image(new Uint8Array([1, 2, 3]), 'image/png')
+				.embed({ uri: 'file:///report.md', mimeType: 'text/markdown', text: '# Report' })
+				.link({ uri: 'file:///data.csv', name: 'data', mimeType: 'text/csv' })
+				.structured({ rows: 3 })
+				.meta({ generatedAt: 0 })
+		);
+		const call = createClient({ tools: { report } });
+
+		expect(await callTool(call, 'report')).toEqual({
+			content: [
+				{ type: 'text', text: 'Summary', annotations: { audience: ['user'], priority: 1 } },
+				{ type: 'image', data: 'AQID', mimeType: 'image/png' },
+				{
+					type: 'resource',
+					resource: { uri: 'file:///report.md', mimeType: 'text/markdown', text: '# Report' }
+				},
+				{ type: 'resource_link', uri: 'file:///data.csv', name: 'data', mimeType: 'text/csv' }
+			],
+			structuredContent: { rows: 3 },
+			_meta: { generatedAt: 0 }
+		});
+	});
+
+	it('validates the structured content of built results', async () => {
+		const count = tool('Count')
+			.output(z.object({ count: z.number() }))
+			.handle(({ result }) => result().structured({ count: 2 }));
+		const call = createClient({ tools: { count } });
+
+		expect(await callTool(call, 'count')).toEqual({
+			content: [{ type: 'text', text: '{"count":2}' }],
+			structuredContent: { count: 2 }
+		});
+	});
+
+	it('returns resource links from resource()', async () => {
+		const link = tool('Link').handle(({ resource }) =>
+			resource({ uri: 'file:///a.txt', name: 'a', mimeType: 'text/plain' })
+		);
+		const call = createClient({ tools: { link } });
+
+		expect(await callTool(call, 'link')).toEqual({
+			content: [{ type: 'resource_link', uri: 'file:///a.txt', name: 'a', mimeType: 'text/plain' }]
+		});
+	});
+});
+
+describe('Resource templates', () => {
+	const read = async (call: Call, uri: string) => {
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		return response.json();
+	};
+
+	it('passes the variables to the handler of the most specific template', async () => {
+		const section = resource('section')
+			.uri('users://{id}/{section}')
+			.handle(({ params }) => `${params.section} of ${params.id}`);
+		const posts = resource('posts')
+			.uri('users://{id}/posts{?page}')
+			.handle(({ params }) => `posts of ${params.id}, page ${params.page ?? 1}`);
+		const call = createClient({ resources: { section, posts } });
+
+		expect((await read(call, 'users://42/posts?page=2')).result.contents[0].text).toBe(
+			'posts of 42, page 2'
+		);
+		expect((await read(call, 'users://42/likes')).result.contents[0].text).toBe('likes of 42');
+		expect((await read(call, 'groups://42')).error.code).toBe(RESOURCE_NOT_FOUND);
+	});
+
+	it('validates the variables with a schema', async () => {
+		const user = resource('user')
+			.uri('users://{id}')
+			.params(z.object({ id: z.coerce.number() }))
+			.handle(({ params }) => `user ${params.id + 1}`);
+		const call = createClient({ resources: { user } });
+
+		expect((await read(call, 'users://41')).result.contents[0].text).toBe('user 42');
+		expect((await read(call, 'users://me')).error.code).toBe(-32602);
+		expect(user.expand({ id: 7 })).toBe('users://7');
+	});
+});
+
+describe('Resource subscriptions', () => {
+	const setup = async () => {
+		const counter = resource('counter')
+			.uri('counter://{name}')
+			.subscribable()
+			.handle(({ params }) => params.name);
+		const fixed = resource('fixed')
+			.uri('fixed://value')
+			.handle(() => 'fixed');
+		const server = mcpServer({ name: 'test', version: '1.0.0', resources: { counter, fixed } });
+		const call = createClient(server);
+		const sessionId = await initialize(call);
+		const request = (method: string, uri: string) =>
+			call(
+				post({ jsonrpc: '2.0', id: 1, method, params: { uri } }, { 'Mcp-Session-Id': sessionId })
+			).then((response) => response.json());
+		const stream = await call({
+			method: 'GET',
+			headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }
+		});
+		return { server, request, reader: stream.body!.getReader() };
+	};
+
+	it('notifies subscribers when a resource is updated', async () => {
+		const { server, request, reader } = await setup();
+
+		expect(await request('resources/subscribe', 'counter://a')).toEqual({
+			jsonrpc: '2.0',
+			id: 1,
+			result: {}
+		});
+		await server.notifyResourceUpdated('counter://b');
+		await server.notifyResourceUpdated('counter://a');
+		expect(await readChunk(reader)).toContain(
+			'{"jsonrpc":"2.0","method":"notifications/resources/updated","params":{"uri":"counter://a"}}'
+		);
+
+		await request('resources/unsubscribe', 'counter://a');
+		expect(server.subscriptions.subscribers('counter://a')).toEqual([]);
+		await reader.cancel();
+	});
+
+	it('only lets clients subscribe to resources that opted in', async () => {
+		const { request, reader } = await setup();
+
+		expect((await request('resources/subscribe', 'fixed://value')).error.code).toBe(-32602);
+		expect((await request('resources/subscribe', 'unknown://value')).error.code).toBe(
+			RESOURCE_NOT_FOUND
+		);
+		await reader.cancel();
+	});
+
+	it('advertises subscriptions', async () => {
+		const counter = resource('counter').uri('counter://a').subscribable();
+		const call = createClient({ resources: { counter } });
+		const response = await call(
+			post({
+				jsonrpc: '2.0',
+				id: 0,
+				method: 'initialize',
+				params: {
+					protocolVersion: '2025-06-18',
+					capabilities: {},
+					clientInfo: { name: 'c', version: '1' }
+				}
+			})
+		);
+
+		expect((await response.json()).result.capabilities.resources).toEqual({
+			listChanged: true,
+			subscribe: true
+		});
+	});
+});
+
+describe('Runtime registry', () => {
+	const listTools = async (call: Call, sessionId: string) => {
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId })
+		);
+		const { result } = await response.json();
+		return result.tools.map((tool: { name: string }) => tool.name);
+	};
+
+	const listen = async (call: Call, sessionId: string) => {
+		const response = await call({
+			method: 'GET',
+			headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }
+		});
+		return response.body!.getReader();
+	};
+
+	const ping = tool('Ping').handle(() => 'pong');
+
+	it('adds and removes tools at runtime and tells every session', async () => {
+		const server = mcpServer({ name: 'test', version: '1.0.0', tools: { ping } });
+		const call = createClient(server);
+		const sessionId = await initialize(call);
+		const reader = await listen(call, sessionId);
+
+		await server.tools.add(
+			'echo',
+			tool('Echo').handle(() => 'echo')
+		);
+		expect(await readChunk(reader)).toContain('"method":"notifications/tools/list_changed"');
+		expect(await listTools(call, sessionId)).toEqual(['ping', 'echo']);
+
+		await server.tools.remove('ping');
+		expect(await listTools(call, sessionId)).toEqual(['echo']);
+		await reader.cancel();
+	});
+
+	it('enables and disables tools for a single session', async () => {
+		const server = mcpServer({ name: 'test', version: '1.0.0', tools: { ping } });
+		const call = createClient(server);
+		const alice = await initialize(call);
+		const bob = await initialize(call);
+		const reader = await listen(call, alice);
+
+		await server.tools.disable('ping', alice);
+		expect(await readChunk(reader)).toContain('"method":"notifications/tools/list_changed"');
+		expect(await listTools(call, alice)).toEqual([]);
+		expect(await listTools(call, bob)).toEqual(['ping']);
+
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'ping' } },
+				{ 'Mcp-Session-Id': alice }
+			)
+		);
+		expect((await response.json()).error.message).toBe('Unknown tool: ping');
+
+		await server.tools.disable('ping');
+		await server.tools.enable('ping', bob);
+		expect(await listTools(call, bob)).toEqual(['ping']);
+		await reader.cancel();
+	});
+
+	it('advertises tools, prompts and resources before there are any', async () => {
+		const server = mcpServer({ name: 'test', version: '1.0.0' });
+		const call = createClient(server);
+		const response = await call(
+			post({
+				jsonrpc: '2.0',
+				id: 0,
+				method: 'initialize',
+				params: {
+					protocolVersion: '2025-06-18',
+					capabilities: {},
+					clientInfo: { name: 'c', version: '1' }
+				}
+			})
+		);
+		const sessionId = response.headers.get('Mcp-Session-Id')!;
+
+		expect((await response.json()).result.capabilities).toMatchObject({
+			tools: { listChanged: true },
+			prompts: { listChanged: true },
+			resources: { listChanged: true, subscribe: true },
+			completions: {}
+		});
+		expect(await listTools(call, sessionId)).toEqual([]);
+
+		await server.tools.add('ping', ping, sessionId);
+		expect(await listTools(call, sessionId)).toEqual(['ping']);
+	});
+});
+
+describe('Pagination', () => {
+	const list = async (call: Call, sessionId: string, method: string, cursor?: string) => {
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method, params: cursor ? { cursor } : {} },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		return response.json();
+	};
+
+	it('pages through tools with an opaque cursor', async () => {
+		const tools = Object.fromEntries(
+			['a', 'b', 'c', 'd', 'e'].map((name) => [name, tool(name).handle(() => name)])
+		);
+		const call = createClient({ tools, pageSize: 2 });
+		const sessionId = await initialize(call);
+
+		const names: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const { result } = await list(call, sessionId, 'tools/list', cursor);
+			names.push(...result.tools.map((tool: { name: string }) => tool.name));
+			cursor = result.nextCursor;
+		} while (cursor);
+
+		expect(names).toEqual(['a', 'b', 'c', 'd', 'e']);
+		expect((await list(call, sessionId, 'tools/list', 'nope')).error.code).toBe(-32602);
+	});
+
+	it('lists resources from async data sources', async () => {
+		const users = Array.from({ length: 5 }, (_, i) => ({ uri: `users://${i}`, name: `user ${i}` }));
+		const readme = resource('readme').uri('docs://readme');
+		const user = resource('user')
+			.uri('users://{id}')
+			.type('application/json')
+			.list(({ cursor, limit }) => {
+				const start = Number(cursor ?? 0);
+				const next = start + limit;
+				return {
+					resources: users.slice(start, next),
+					nextCursor: next < users.length ? String(next) : undefined
+				};
+			});
+		const call = createClient({ resources: { readme, user }, pageSize: 3 });
+		const sessionId = await initialize(call);
+
+		const first = (await list(call, sessionId, 'resources/list')).result;
+		expect(first.resources.map((resource: { uri: string }) => resource.uri)).toEqual([
+			'docs://readme',
+			'users://0',
+			'users://1'
+		]);
+		expect(first.resources[1].mimeType).toBe('application/json');
+
+		const second = (await list(call, sessionId, 'resources/list', first.nextCursor)).result;
+		expect(second.resources.map((resource: { uri: string }) => resource.uri)).toEqual([
+			'users://2',
+			'users://3',
+			'users://4'
+		]);
+		expect(second.nextCursor).toBeUndefined();
+	});
+});
+
+describe('Completions', () => {
+	const complete = async (call: Call, sessionId: string, params: object) => {
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'completion/complete', params },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		return response.json();
+	};
+
+	const languages = ['python', 'perl', 'php', 'pascal'];
+	const review = prompt('Review code')
+		.input(z.object({ language: z.string(), framework: z.string() }))
+		.complete('language', ({ value }) => languages.filter((l) => l.startsWith(value)))
+		.complete('framework', ({ arguments: args }) =>
+			args.language === 'python' ? ['django', 'flask'] : []
+		)
+		.handle(({ input }) => ({ text: `Review this ${input.language} code` }));
+	const user = resource('user')
+		.uri('users://{id}')
+		.complete('id', () => Array.from({ length: 150 }, (_, i) => String(i)));
+
+	it('completes prompt arguments with the arguments already resolved', async () => {
+		const call = createClient({ prompts: { review }, resources: { user } });
+		const sessionId = await initialize(call);
+
+		expect(
+			(
+				await complete(call, sessionId, {
+					ref: { type: 'ref/prompt', name: 'review' },
+					argument: { name: 'language', value: 'p' }
+				})
+			).result
+		).toEqual({ completion: { values: languages } });
+		expect(
+			(
+				await complete(call, sessionId, {
+					ref: { type: 'ref/prompt', name: 'review' },
+					argument: { name: 'framework', value: '' },
+					context: { arguments: { language: 'python' } }
+				})
+			).result.completion.values
+		).toEqual(['django', 'flask']);
+	});
+
+	it('caps resource template completions to 100 values', async () => {
+		const call = createClient({ prompts: { review }, resources: { user } });
+		const sessionId = await initialize(call);
+		const { result } = await complete(call, sessionId, {
+			ref: { type: 'ref/resource', uri: 'users://{id}' },
+			argument: { name: 'id', value: '' }
+		});
+
+		expect(result.completion.values).toHaveLength(100);
+		expect(result.completion).toMatchObject({ total: 150, hasMore: true });
+	});
+
+	it('advertises the completions capability', async () => {
+		const call = createClient({ prompts: { review } });
+		const response = await call(
+			post({
+				jsonrpc: '2.0',
+				id: 0,
+				method: 'initialize',
+				params: {
+					protocolVersion: '2025-06-18',
+					capabilities: {},
+					clientInfo: { name: 'c', version: '1' }
+				}
+			})
+		);
+
+		expect((await response.json()).result.capabilities.completions).toEqual({});
+	});
+});
+
+describe('Logging', () => {
+	it('sends logs at or above the level set by the client and mirrors them to the sink', async () => {
+		const entries: unknown[] = [];
+		const work = tool('Work').handle(async ({ log }) => {
+			await log.info('starting');
+			await log.warning({ disk: 0.95 }, 'storage');
+			return 'done';
+		});
+		const call = createClient({ tools: { work }, logSink: (entry) => void entries.push(entry) });
+		const sessionId = await initialize(call);
+
+		const setLevel = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'logging/setLevel', params: { level: 'warning' } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		expect((await setLevel.json()).result).toEqual({});
+
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'work' } },
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+		const [message, result] = await readEvents(response);
+
+		expect(message).toEqual({
+			jsonrpc: '2.0',
+			method: 'notifications/message',
+			params: { level: 'warning', logger: 'storage', data: { disk: 0.95 } }
+		});
+		expect(result.result.content[0].text).toBe('done');
+		expect(entries).toEqual([
+			{ level: 'info', data: 'starting', sessionId, logger: undefined },
+			{ level: 'warning', data: { disk: 0.95 }, logger: 'storage', sessionId }
+		]);
+	});
+
+	it('rejects unknown levels', async () => {
+		const call = createClient();
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'logging/setLevel', params: { level: 'verbose' } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+
+		expect((await response.json()).error.code).toBe(-32602);
+	});
+});
+
+describe('Sampling', () => {
+	const summarize = tool('Summarizes with the client model')
+		.input(z.object({ text: z.string(), timeout: z.number().optional() }))
+		.handle(async ({ input, sample }) => {
+			const result = await sample(
+				{
+					messages: [{ role: 'user', content: { type: 'text', text: `Summarize: ${input.text}` } }],
+					maxTokens: 100
+				},
+				{ timeout: input.timeout }
+			);
+			return result.content.type === 'text' ? result.content.text : '';
+		});
+
+	it('sends sampling/createMessage over the stream and returns the client result', async () => {
+		const call = createClient({ tools: { summarize } });
+		const sessionId = await initialize(call);
+
+		const response = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: 1,
+					method: 'tools/call',
+					params: { name: 'summarize', arguments: { text: 'a long story' } }
+				},
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+		const reader = response.body!.getReader();
+		const request = JSON.parse((await readChunk(reader)).split('data: ')[1]);
+
+		expect(request).toMatchObject({
+			method: 'sampling/createMessage',
+			params: { maxTokens: 100 }
+		});
+
+		const answer = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: request.id,
+					result: {
+						role: 'assistant',
+						content: { type: 'text', text: 'A story.' },
+						model: 'test-model'
+					}
+				},
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		expect(answer.status).toBe(202);
+
+		const result = JSON.parse((await readChunk(reader)).split('data: ')[1]);
+		expect(result.result.content[0].text).toBe('A story.');
+		reader.releaseLock();
+	});
+
+	it('fails when the client does not support sampling', async () => {
+		const call = createClient({ tools: { summarize } });
+		const initialized = await call(
+			post({
+				jsonrpc: '2.0',
+				id: 0,
+				method: 'initialize',
+				params: {
+					protocolVersion: '2025-06-18',
+					capabilities: {},
+					clientInfo: { name: 'client', version: '1.0.0' }
+				}
+			})
+		);
+		const response = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: 1,
+					method: 'tools/call',
+					params: { name: 'summarize', arguments: { text: 'a long story' } }
+				},
+				{ 'Mcp-Session-Id': initialized.headers.get('Mcp-Session-Id')! }
+			)
+		);
+		const { result } = await response.json();
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain('does not support sampling');
+	});
+
+	it('times out when the client does not answer', async () => {
+		const call = createClient({ tools: { summarize } });
+		const response = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: 1,
+					method: 'tools/call',
+					params: { name: 'summarize', arguments: { text: 'a long story', timeout: 10 } }
+				},
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': await initialize(call) }
+			)
+		);
+		const [request, cancelled, result] = await readEvents(response);
+
+		expect(request.method).toBe('sampling/createMessage');
+		expect(cancelled).toMatchObject({
+			method: 'notifications/cancelled',
+			params: { requestId: request.id }
+		});
+		expect(result.result.isError).toBe(true);
+		expect(result.result.content[0].text).toContain('timed out');
+	});
+});
+
+describe('Elicitation', () => {
+	const book = tool('Books a table')
+		.input(z.object({ restaurant: z.string() }))
+		.handle(async ({ input, elicit }) => {
+			const response = await elicit({
+				message: `How many people at ${input.restaurant}?`,
+				schema: z.object({
+					guests: z.number().int().min(1).describe('Number of guests'),
+					seating: z.enum(['indoor', 'outdoor']).optional(),
+					highChair: z.boolean().default(false)
+				})
+			});
+			if (response.action !== 'accept') {
+				return `Booking ${response.action}d`;
+			}
+			return `Booked for ${response.content.guests}`;
+		});
+
+	const connect = async (call: Call) => {
+		const response = await call(
+			post({
+				jsonrpc: '2.0',
+				id: 0,
+				method: 'initialize',
+				params: {
+					protocolVersion: '2025-06-18',
+					capabilities: { elicitation: {} },
+					clientInfo: { name: 'client', version: '1.0.0' }
+				}
+			})
+		);
+		return response.headers.get('Mcp-Session-Id')!;
+	};
+
+	const elicit = async (answer: (id: string) => object) => {
+		const call = createClient({ tools: { book } });
+		const sessionId = await connect(call);
+		const response = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: 1,
+					method: 'tools/call',
+					params: { name: 'book', arguments: { restaurant: 'Chez Paul' } }
+				},
+				{ Accept: JSON_AND_SSE, 'Mcp-Session-Id': sessionId }
+			)
+		);
+		const reader = response.body!.getReader();
+		const request = JSON.parse((await readChunk(reader)).split('data: ')[1]);
+		await call(post(answer(request.id), { 'Mcp-Session-Id': sessionId }));
+		const result = JSON.parse((await readChunk(reader)).split('data: ')[1]).result;
+		reader.releaseLock();
+		return { request, result };
+	};
+
+	it('sends the restricted schema and returns the validated content', async () => {
+		const { request, result } = await elicit((id) => ({
+			jsonrpc: '2.0',
+			id,
+			result: { action: 'accept', content: { guests: 4 } }
+		}));
+
+		expect(request.method).toBe('elicitation/create');
+		expect(request.params).toEqual({
+			message: 'How many people at Chez Paul?',
+			requestedSchema: {
+				type: 'object',
+				properties: {
+					guests: {
+						type: 'integer',
+						description: 'Number of guests',
+						minimum: 1,
+						maximum: 9007199254740991
+					},
+					seating: { type: 'string', enum: ['indoor', 'outdoor'] },
+					highChair: { type: 'boolean', default: false }
+				},
+				required: ['guests']
+			}
+		});
+		expect(result.content[0].text).toBe('Booked for 4');
+	});
+
+	it('passes declines through and rejects invalid content', async () => {
+		const declined = await elicit((id) => ({ jsonrpc: '2.0', id, result: { action: 'decline' } }));
+		expect(declined.result.content[0].text).toBe('Booking declined');
+
+		const invalid = await elicit((id) => ({
+			jsonrpc: '2.0',
+			id,
+			result: { action: 'accept', content: { guests: 0 } }
+		}));
+		expect(invalid.result.isError).toBe(true);
+		expect(invalid.result.content[0].text).toMatch(/^Invalid elicitation response: \/guests: /);
+	});
+
+	it('refuses schemas elicitation cannot express', async () => {
+		const address = tool('Asks for an address').handle(async ({ elicit }) => {
+			await elicit({
+				message: 'Where?',
+				// @ts-expect-error nested objects cannot be elicited
+				schema: z.object({ address: z.object({ street: z.string() }) })
+			});
+			return 'done';
+		});
+		const call = createClient({ tools: { address } });
+		const sessionId = await connect(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'address' } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		const { result } = await response.json();
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain('"address"');
+	});
+});
+
+describe('Prompt messages', () => {
+	const user = resource('user')
+		.uri('users://{id}')
+		.type('application/json')
+		.description('A user')
+		.handle(({ params }) => JSON.stringify({ id: params.id }));
+	const onboarding = prompt('Onboard a user')
+		.input(z.object({ id: z.string() }))
+		.handle(({ input, result }) =>
+			result()
+				.description('Onboarding')
+				.text('Welcome this user')
+				.embed('user', { id: input.id })
+				.image(new Uint8Array([1, 2, 3]), 'image/png')
+				.assistant()
+				.text('Here is their profile')
+				.link(`users://${input.id}`)
+		);
+
+	const get = async (call: Call, name: string, args: object) => {
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'prompts/get', params: { name, arguments: args } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		return response.json();
+	};
+
+	it('builds a conversation embedding and linking resources by name or URI', async () => {
+		const call = createClient({ prompts: { onboarding }, resources: { user } });
+		const { result } = await get(call, 'onboarding', { id: '42' });
+
+		expect(result).toEqual({
+			description: 'Onboarding',
+			messages: [
+				{ role: 'user', content: { type: 'text', text: 'Welcome this user' } },
+				{
+					role: 'user',
+					content: {
+						type: 'resource',
+						resource: { uri: 'users://42', mimeType: 'application/json', text: '{"id":"42"}' }
+					}
+				},
+				{ role: 'user', content: { type: 'image', data: 'AQID', mimeType: 'image/png' } },
+				{ role: 'assistant', content: { type: 'text', text: 'Here is their profile' } },
+				{
+					role: 'assistant',
+					content: {
+						type: 'resource_link',
+						uri: 'users://42',
+						name: 'user',
+						description: 'A user',
+						mimeType: 'application/json'
+					}
+				}
+			]
+		});
+	});
+
+	it('fails when an embedded resource does not exist', async () => {
+		const broken = prompt('Broken').handle(({ result }) => result().embed('missing'));
+		const call = createClient({ prompts: { broken }, resources: { user } });
+		const { error } = await get(call, 'broken', {});
+
+		expect(error.code).toBe(RESOURCE_NOT_FOUND);
+		expect(error.data).toEqual({ uri: 'missing' });
+	});
+});
+
+describe('Prompt arguments', () => {
+	const plan = prompt('Plan a trip')
+		.input(
+			z.object({
+				city: z.string().meta({ title: 'City', description: 'Where to go' }),
+				days: z.number().int().min(1),
+				budget: z.boolean(),
+				season: z.enum(['summer', 'winter']),
+				start: z.date().optional()
+			})
+		)
+		.handle(({ input }) => ({
+			text: [
+				input.city,
+				input.days + 1,
+				input.budget,
+				input.season,
+				input.start?.getFullYear()
+			].join(' ')
+		}));
+
+	const get = async (call: Call, args: object) => {
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'prompts/get', params: { name: 'plan', arguments: args } },
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		return response.json();
+	};
+
+	it('lists arguments with their title and description', async () => {
+		const call = createClient({ prompts: { plan } });
+		const sessionId = await initialize(call);
+		const response = await call(
+			post({ jsonrpc: '2.0', id: 1, method: 'prompts/list' }, { 'Mcp-Session-Id': sessionId })
+		);
+		const [listed] = (await response.json()).result.prompts;
+
+		expect(listed.arguments[0]).toEqual({
+			name: 'city',
+			title: 'City',
+			description: 'Where to go',
+			required: true
+		});
+		expect(listed.arguments[4]).toMatchObject({ name: 'start', required: false });
+	});
+
+	it('coerces string arguments to the types of the schema', async () => {
+		const call = createClient({ prompts: { plan } });
+		const { result } = await get(call, {
+			city: 'Lisbon',
+			days: '3',
+			budget: 'true',
+			season: 'summer',
+			start: '2026-07-01'
+		});
+
+		expect(result.messages[0].content.text).toBe('Lisbon 4 true summer 2026');
+	});
+
+	it('names the invalid argument', async () => {
+		const call = createClient({ prompts: { plan } });
+		const { error } = await get(call, {
+			city: 'Lisbon',
+			days: 'three',
+			budget: 'true',
+			season: 'summer'
+		});
+
+		expect(error.code).toBe(-32602);
+		expect(error.message).toContain('Invalid argument "days"');
+		expect(error.data).toMatchObject({ argument: 'days' });
+	});
+});
+
+describe('Validation errors', () => {
+	const add = (errors?: 'error' | 'result') =>
+		tool('Adds')
+			.input(z.object({ a: z.number(), b: z.number() }), { errors })
+			.handle(({ input }) => String(input.a + input.b));
+
+	it('sends the issues of invalid tool arguments in the error data', async () => {
+		const call = createClient({ tools: { add: add() } });
+		const sessionId = await initialize(call);
+		const response = await call(
+			post(
+				{
+					jsonrpc: '2.0',
+					id: 1,
+					method: 'tools/call',
+					params: { name: 'add', arguments: { a: 1, b: 'two' } }
+				},
+				{ 'Mcp-Session-Id': sessionId }
+			)
+		);
+		const { error } = await response.json();
+
+		expect(error.code).toBe(-32602);
+		expect(error.message).toBe(
+			'Invalid input: /b: Invalid input: expected number, received string'
+		);
+		expect(error.data.issues).toEqual([
+			{
+				path: '/b',
+				message: 'Invalid input: expected number, received string',
+				expected: 'number'
+			}
+		]);
+	});
+
+	it('returns invalid arguments as a tool error the model can correct', async () => {
+		const call = createClient({ tools: { add: add('result') } });
+		const result = await callTool(call, 'add', { a: 1 });
+
+		expect(result).toEqual({
+			content: [
+				{
+					type: 'text',
+					text: 'Invalid input: /b: Invalid input: expected number, received undefined'
+				}
+			],
+			isError: true
+		});
+	});
+});
+
+describe('Result caching', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const counter = () => {
+		let calls = 0;
+		return tool('Looks up a price')
+			.input(z.object({ sku: z.string(), currency: z.string() }))
+			.annotations({ readOnlyHint: true })
+			.handle(({ input }) => `${input.sku} ${input.currency} #${++calls}`);
+	};
+
+	it('caches read-only tools by their canonical arguments', async () => {
+		const client = createClient({ tools: { price: counter() }, cache: { ttl: 60 } });
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+		const price = async (args: object) =>
+			(await callTool(client, 'price', args, session)).content[0].text;
+
+		expect(await price({ sku: 'a', currency: 'EUR' })).toBe('a EUR #1');
+		expect(await price({ currency: 'EUR', sku: 'a' })).toBe('a EUR #1');
+		expect(await price({ sku: 'b', currency: 'EUR' })).toBe('b EUR #2');
+	});
+
+	it('only caches other tools when they opt in', async () => {
+		const client = createClient({
+			tools: {
+				optedOut: counter().cache(false),
+				writer: tool('Writes').handle(() => String(Math.random())),
+				optedIn: tool('Reads')
+					.cache({ ttl: 60 })
+					.handle(() => String(Math.random()))
+			},
+			cache: { ttl: 60 }
+		});
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+		const twice = async (name: string, args: object = {}) => [
+			(await callTool(client, name, args, session)).content[0].text,
+			(await callTool(client, name, args, session)).content[0].text
+		];
+
+		expect(await twice('optedOut', { sku: 'a', currency: 'EUR' })).toEqual([
+			'a EUR #1',
+			'a EUR #2'
+		]);
+		const [first, second] = await twice('writer');
+		expect(first).not.toBe(second);
+		const [cached, again] = await twice('optedIn');
+		expect(cached).toBe(again);
+	});
+
+	it('runs the middlewares on cache hits', async () => {
+		const secret = tool('Reads a secret')
+			.annotations({ readOnlyHint: true })
+			.handle(() => 'secret for alice');
+		const client = createClient({
+			tools: { secret },
+			cache: { ttl: 60, by: 'global' },
+			middleware: [
+				({ event, error, next }) =>
+					event.request.headers.get('x-user') ? next() : error('Unauthorized')
+			]
+		});
+
+		expect((await callTool(client, 'secret', {}, { 'x-user': 'alice' })).content[0].text).toBe(
+			'secret for alice'
+		);
+		const denied = await callTool(client, 'secret', {});
+		expect(denied.isError).toBe(true);
+		expect(denied.content[0].text).toBe('Unauthorized');
+	});
+
+	it('keeps results per session unless they are shared', async () => {
+		const shared = counter().cache({ ttl: 60, by: 'global' });
+		const client = createClient({ tools: { price: counter(), shared }, cache: { ttl: 60 } });
+		const args = { sku: 'a', currency: 'EUR' };
+
+		expect((await callTool(client, 'price', args)).content[0].text).toBe('a EUR #1');
+		expect((await callTool(client, 'price', args)).content[0].text).toBe('a EUR #2');
+		expect((await callTool(client, 'shared', args)).content[0].text).toBe('a EUR #1');
+		expect((await callTool(client, 'shared', args)).content[0].text).toBe('a EUR #1');
+	});
+
+	it('answers with stale results while refreshing them in the background', async () => {
+		// Only the clock is faked: the refresh still runs on real timers.
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const price = counter().cache({ ttl: 60, staleWhileRevalidate: 60 });
+		const client = createClient({ tools: { price } });
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+		const text = async () =>
+			(await callTool(client, 'price', { sku: 'a', currency: 'EUR' }, session)).content[0].text;
+
+		expect(await text()).toBe('a EUR #1');
+		vi.setSystemTime(Date.now() + 90_000);
+		expect(await text()).toBe('a EUR #1');
+		await vi.waitFor(async () => expect(await text()).toBe('a EUR #2'));
+	});
+
+	it('keeps results in KV or the Cache API', async () => {
+		const kv = new Map<string, { value: string; ttl?: number }>();
+		const namespace: KVNamespaceLike = {
+			get: async (key) => (kv.has(key) ? JSON.parse(kv.get(key)!.value) : null),
+			put: async (key, value, options) => void kv.set(key, { value, ttl: options?.expirationTtl }),
+			delete: async (key) => void kv.delete(key)
+		};
+		const responses = new Map<string, Response>();
+		const cache: CacheLike = {
+			match: async (request) => responses.get(request.url)?.clone(),
+			put: async (request, response) => void responses.set(request.url, response),
+			delete: async (request) => responses.delete(request.url)
+		};
+
+		for (const store of [new KVCacheStore(namespace), new CacheApiStore(cache)]) {
+			const client = createClient({ tools: { price: counter() }, cache: { ttl: 5, store } });
+			const session = { 'Mcp-Session-Id': await initialize(client) };
+			await callTool(client, 'price', { sku: 'a', currency: 'EUR' }, session);
+
+			expect(
+				(await callTool(client, 'price', { sku: 'a', currency: 'EUR' }, session)).content[0].text
+			).toBe('a EUR #1');
+		}
+		expect([...kv.values()][0].ttl).toBe(60);
+		expect([...responses.values()][0].headers.get('Cache-Control')).toBe('max-age=5');
+	});
+});
+
+describe('Rate limits', () => {
+	it('limits the calls of a tool per session and tells when to retry', async () => {
+		const search = tool('Searches')
+			.rateLimit({ limit: 2, window: 60 })
+			.handle(() => 'found');
+		const client = createClient({ tools: { search } });
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+
+		expect((await callTool(client, 'search', {}, session)).content[0].text).toBe('found');
+		expect((await callTool(client, 'search', {}, session)).content[0].text).toBe('found');
+		const result = await callTool(client, 'search', {}, session);
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toMatch(/^Rate limit exceeded, retry in \d+ seconds?$/);
+		expect(result._meta.retryAfter).toBeGreaterThan(0);
+
+		expect((await callTool(client, 'search')).content[0].text).toBe('found');
+	});
+
+	it('limits all tools of the server with a JSON-RPC error', async () => {
+		const client = createClient({
+			tools: { a: tool('A').handle(() => 'a'), b: tool('B').handle(() => 'b') },
+			rateLimit: { limit: 1, by: () => 'everyone', respond: 'error' }
+		});
+
+		expect((await callTool(client, 'a')).content[0].text).toBe('a');
+		const response = await client(
+			post(
+				{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'b' } },
+				{ 'Mcp-Session-Id': await initialize(client) }
+			)
+		);
+		const { error } = await response.json();
+		expect(error.code).toBe(-32029);
+		expect(error.data.retryAfter).toBeGreaterThan(0);
+	});
+
+	it('limits how many calls run at once', async () => {
+		let start: () => void = () => {};
+		let finish: () => void = () => {};
+		const started = () => new Promise<void>((resolve) => (start = resolve));
+		const report = tool('Builds a report')
+			.rateLimit({ concurrency: 1 })
+			.handle(async () => {
+				start();
+				await new Promise<void>((resolve) => (finish = resolve));
+				return 'report';
+			});
+		const client = createClient({ tools: { report } });
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+
+		let running = started();
+		const first = callTool(client, 'report', {}, session);
+		await running;
+		expect((await callTool(client, 'report', {}, session)).isError).toBe(true);
+
+		finish();
+		expect((await first).content[0].text).toBe('report');
+		running = started();
+		const again = callTool(client, 'report', {}, session);
+		await running;
+		finish();
+		expect((await again).content[0].text).toBe('report');
+	});
+});
+
+describe('Timeouts and retries', () => {
+	it('aborts a tool that runs past its timeout', async () => {
+		let aborted = false;
+		const slow = tool('Waits for an upstream API')
+			.timeout(20)
+			.handle(({ signal }) => {
+				signal.addEventListener('abort', () => (aborted = true));
+				return new Promise(() => {});
+			});
+		const client = createClient({ tools: { slow } });
+
+		const result = await callTool(client, 'slow');
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe('Tool timed out after 20ms');
+		expect(aborted).toBe(true);
+	});
+
+	it('applies the timeout of the server unless the tool opts out', async () => {
+		const wait = async () => {
+			await new Promise((resolve) => setTimeout(resolve, 200));
+			return 'done';
+		};
+		const client = createClient({
+			tools: {
+				slow: tool('Slow').handle(() => new Promise(() => {})),
+				patient: tool('Patient').timeout(false).handle(wait)
+			},
+			timeout: 10
+		});
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+
+		expect((await callTool(client, 'slow', {}, session)).isError).toBe(true);
+		expect((await callTool(client, 'patient', {}, session)).content[0].text).toBe('done');
+	});
+
+	it('retries idempotent tools with backoff', async () => {
+		let attempts = 0;
+		const flaky = tool('Fetches a page')
+			.annotations({ idempotentHint: true })
+			.retry({ attempts: 3, backoff: 5 })
+			.handle(() => {
+				if (++attempts < 3) {
+					throw new Error('Upstream unavailable');
+				}
+				return 'page';
+			});
+		const client = createClient({ tools: { flaky } });
+
+		expect((await callTool(client, 'flaky')).content[0].text).toBe('page');
+		expect(attempts).toBe(3);
+	});
+
+	it('gives up with the last error once the attempts are spent', async () => {
+		let attempts = 0;
+		const failing = tool('Fails')
+			.annotations({ idempotentHint: true })
+			.handle(() => {
+				throw new Error(`Attempt ${++attempts} failed`);
+			});
+		const client = createClient({ tools: { failing }, retry: { attempts: 2, backoff: 1 } });
+
+		const result = await callTool(client, 'failing');
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe('Attempt 2 failed');
+	});
+
+	it('does not retry tools that are not idempotent, nor tool errors', async () => {
+		let attempts = 0;
+		const send = tool('Sends an email').handle(() => {
+			attempts++;
+			throw new Error('Failed');
+		});
+		const refuse = tool('Refuses')
+			.annotations({ idempotentHint: true })
+			.handle(({ error }) => {
+				attempts++;
+				throw error('Not allowed');
+			});
+		const client = createClient({ tools: { send, refuse }, retry: { attempts: 3, backoff: 1 } });
+		const session = { 'Mcp-Session-Id': await initialize(client) };
+
+		expect((await callTool(client, 'send', {}, session)).isError).toBe(true);
+		expect((await callTool(client, 'refuse', {}, session)).content[0].text).toBe('Not allowed');
+		expect(attempts).toBe(2);
+	});
+
+	it('stops retrying when the call times out', async () => {
+		let attempts = 0;
+		const flaky = tool('Flaky')
+			.annotations({ idempotentHint: true })
+			.timeout(500)
+			.retry({ attempts: 10, backoff: 300 })
+			.handle(() => {
+				attempts++;
+				throw new Error('Failed');
+			});
+		const client = createClient({ tools: { flaky } });
+
+		// Attempts at 0 and 300ms, the next one would come at 900ms.
+		const result = await callTool(client, 'flaky');
+		expect(result.content[0].text).toBe('Tool timed out after 500ms');
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(attempts).toBe(2);
+	});
+});
@@ -1,10 +1,12 @@
 import type { MaybePromise, MCPServer } from './types';
-import { defineTools, type Tool, ToolError } from './tools';
+import { defineTools, type CallOptions, type Tool, ToolError } from './tools';
 import { definePrompts, type Prompt } from './prompts';
-import { defineResources, defineResourceTemplates, type Resource } from './resources';
-import { MCPError, mcpError } from './errors.js';
+import { defineResources, defineResourceTemplates, findResource, type Resource } from './resources';
+import { errorMessage, MCPError, mcpError } from './errors.js';
 import type {
 	ClientRequest,
+	ClientNotification,
+	Result,
 	InitializeResult,
 	ListPromptsResult,
 	ListResourcesResult,
@@ -14,28 +16,46 @@ import type {
 	CallToolResult,
 	ListToolsResult,
 	GetPromptResult,
-	InitializeRequest,
-	GetPromptRequest,
-	ListPromptsRequest,
-	SetLevelRequest,
-	ListResourcesRequest,
-	ReadResourceRequest,
-	CallToolRequest,
-	CompleteRequest,
-	PingRequest,
-	ListToolsRequest,
-	SubscribeRequest,
-	UnsubscribeRequest,
+	Request,
 	RequestId,
+	ProgressToken,
 	PaginatedResult,
 	Tool as SpecTool,
-	ListResourceTemplatesRequest,
 	ListResourceTemplatesResult,
-	InitializedNotification,
-	ServerCapabilities
+	CreateMessageRequest,
+	CreateMessageResult,
+	ElicitResult,
+	JSONRPCMessage,
+	JSONRPCNotification,
+	JSONRPCResponse
 } from './types/spec';
 import { defineWidgets, Widget } from './widget.js';
 import type { RequestEvent } from '@sveltejs/kit';
+import type { Session } from './session';
+import type { Principal } from './auth';
+import type { Server } from './server';
+import { invalidParams } from './jsonrpc';
+import { listSource, paginate, type Page, type PageSource } from './utils/pagination';
+import {
+	adaptPrompt,
+	adaptTool,
+	adaptToolResult,
+	clientContext,
+	negotiateProtocolVersion,
+	supports
+} from './protocol';
+import { complete } from './completion';
+import { PromptResult } from './result';
+import { cacheKey, cacheScope } from './cache';
+import { rateLimited } from './ratelimit';
+import {
+	elicitResponse,
+	toElicitationSchema,
+	type ElicitParams,
+	type ElicitResponse
+} from './elicitation';
+import type { StandardSchemaV1 } from './types/standardSchema';
+import { createLogger, isLoggingLevel, type Logger } from './logging';
 
 export interface ListToolsOutputResult extends PaginatedResult {
 	tools: (SpecTool & {
@@ -43,263 +63,594 @@ export interface ListToolsOutputResult extends PaginatedResult {
 	})[];
 }
 
-type MCPHandlerInterface = {
-	initialize: (payload: InitializeRequest['params']) => MaybePromise<InitializeResult | MCPError>;
-	notifications: {
-		initialized: (
-			payload: InitializedNotification['params']
-		) => MaybePromise<EmptyResult | MCPError>;
-	};
-	prompts: {
-		get: (payload: GetPromptRequest['params']) => MaybePromise<GetPromptResult | MCPError>;
-		list: (payload: ListPromptsRequest['params']) => MaybePromise<ListPromptsResult | MCPError>;
-	};
-	completion?: {
-		complete?: (payload: CompleteRequest['params']) => MaybePromise<CompleteResult | MCPError>;
-	};
-	logging?: {
-		setLevel?: (payload: SetLevelRequest['params']) => MaybePromise<EmptyResult | MCPError>;
-	};
-	resources: {
-		list: (payload: ListResourcesRequest['params']) => MaybePromise<ListResourcesResult | MCPError>;
-		read: (payload: ReadResourceRequest['params']) => MaybePromise<ReadResourceResult | MCPError>;
-		subscribe?: (payload: SubscribeRequest['params']) => MaybePromise<EmptyResult | MCPError>;
-		unsubscribe?: (payload: UnsubscribeRequest['params']) => MaybePromise<EmptyResult | MCPError>;
-		templates: {
-			list: (
-				payload: ListResourceTemplatesRequest['params']
-			) => MaybePromise<ListResourceTemplatesResult | MCPError>;
-		};
-	};
-	tools: {
-		call: (payload: CallToolRequest['params']) => MaybePromise<CallToolResult | MCPError>;
-		list: (payload: ListToolsRequest['params']) => MaybePromise<ListToolsResult | MCPError>;
-	};
-	ping?: (payload: PingRequest) => MaybePromise<EmptyResult | MCPError>;
+type MethodResults = {
+	ping: EmptyResult;
+	initialize: InitializeResult;
+	'completion/complete': CompleteResult;
+	'logging/setLevel': EmptyResult;
+	'prompts/get': GetPromptResult;
+	'prompts/list': ListPromptsResult;
+	'resources/list': ListResourcesResult;
+	'resources/templates/list': ListResourceTemplatesResult;
+	'resources/read': ReadResourceResult;
+	'resources/subscribe': EmptyResult;
+	'resources/unsubscribe': EmptyResult;
+	'tools/call': CallToolResult;
+	'tools/list': ListToolsResult;
+};
+
+type RequestMethod = ClientRequest['method'];
+type NotificationMethod = ClientNotification['method'];
+
+export type MethodContext = {
+	id?: RequestId;
+	event: RequestEvent;
+	session: Session;
+	principal?: Principal;
+	notify: MCPHandler['notify'];
+	/** Aborted when the client cancels the request or disconnects. */
+	signal: AbortSignal;
+	/** Reports progress to the client, when it asked for it with a `progressToken`. */
+	progress: (progress: number, total?: number, message?: string) => Promise<void>;
+	log: Logger;
+	/** Asks the client's model for a completion, when the client supports sampling. */
+	sample: (
+		params: CreateMessageRequest['params'],
+		options?: RequestOptions
+	) => Promise<CreateMessageResult>;
+	/** Asks the user for structured input, when the client supports elicitation. */
+	elicit: <Schema extends StandardSchemaV1>(
+		params: ElicitParams<Schema>,
+		options?: RequestOptions
+	) => Promise<ElicitResponse<StandardSchemaV1.InferOutput<Schema>>>;
 };
 
+export type RequestOptions = {
+	/** Milliseconds to wait for the client's response. Defaults to a minute. */
+	timeout?: number;
+	signal?: AbortSignal;
+};
+
+const DEFAULT_REQUEST_TIMEOUT = 60_000;
+
+export type MethodHandler<Params = any, R extends Result = Result> = (
+	params: Params,
+	context: MethodContext
+) => MaybePromise<R | MCPError>;
+
+export type RequestHandlers = {
+	[M in RequestMethod]: MethodHandler<
+		Extract<ClientRequest, { method: M }>['params'],
+		MethodResults[M]
+	>;
+};
+
+type NotificationHandlers = {
+	[M in NotificationMethod]?: MethodHandler<
+		Extract<ClientNotification, { method: M }>['params'],
+		EmptyResult
+	>;
+};
+
+/**
+ * Methods registered by the app. They take precedence over the built-in ones,
+ * which allows overriding them as well as adding custom or experimental methods.
+ */
+export type CustomMethods = Partial<RequestHandlers> & { [method: string]: MethodHandler };
+
 export type RPCRequest = ClientRequest & { id: RequestId };
 
 export class MCPHandler {
 	private server: MCPServer;
 	private domain: string;
-	private hasTools: boolean;
-	private hasResources: boolean;
-	private hasPrompts: boolean;
-	private hasWidgets: boolean;
+	private controllers = new Set<AbortController>();
 	constructor(
-		server: MCPServer,
+		private runtime: Server,
 		private event: RequestEvent,
 		domain: string,
-		private sessionId: string
+		private session: Session,
+		private principal: Principal | undefined,
+		// Resolves with false when the message could not be delivered.
+		private send: (message: JSONRPCMessage) => Promise<boolean | void>
 	) {
-		const { tools, resources, prompts, widgets } = server;
-		this.server = server;
+		this.server = runtime.configFor(session.id);
 		this.domain = domain;
-		this.hasTools = !!tools && Object.keys(tools).length > 0;
-		this.hasResources = !!resources && Object.keys(resources).length > 0;
-		this.hasPrompts = !!prompts && Object.keys(prompts).length > 0;
-		this.hasWidgets = !!widgets && Object.keys(widgets).length > 0;
 	}
 
-	public get mpcHandler(): MCPHandlerInterface {
-		return {
-			initialize: async () => {
-				const result: InitializeResult = {
-					serverInfo: {
-						name: this.server.name,
-						version: this.server.version
-					},
-					protocolVersion: '2025-06-18',
-					capabilities: {}
-				};
+	// Aborts every request of this handler, when the client goes away for good.
+	public abort = () => {
+		for (const controller of this.controllers) {
+			controller.abort();
+		}
+	};
 
-				if (this.hasTools) {
-					Object.assign(result.capabilities, {
-						tools: {
-							listChanged: true
-						}
-					} satisfies ServerCapabilities);
-				}
+	public notify = async (method: string, params?: JSONRPCNotification['params']) => {
+		await this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+	};
 
-				if (this.hasResources || this.hasWidgets) {
-					Object.assign(result.capabilities, {
-						resources: {
-							listChanged: true
-						} satisfies ServerCapabilities['resources']
-					});
+	/** Sends a request to the client and resolves with its result, or rejects with its error. */
+	public request = async <R extends Result>(
+		method: string,
+		params?: Request['params'],
+		{ timeout = DEFAULT_REQUEST_TIMEOUT, signal }: RequestOptions = {}
+	) => {
+		const { id, response } = this.runtime.pending.create(this.session.id);
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let done = false;
+		// Rejects when we stop waiting, in which case the client is told to stop as well.
+		const stopped = new Promise<never>((_, reject) => {
+			const stop = (reason: unknown) => {
+				if (done) {
+					return;
 				}
+				reject(reason);
+				this.notify('notifications/cancelled', {
+					requestId: id,
+					reason: reason instanceof Error ? reason.message : String(reason)
+				}).catch(() => {});
+			};
+			timer = setTimeout(
+				() => stop(mcpError('REQUEST_TIMEOUT', `Request timed out: ${method}`)),
+				timeout
+			);
+			signal?.addEventListener('abort', () => stop(signal.reason));
+		});
+		stopped.catch(() => {});
 
-				if (this.hasPrompts) {
-					Object.assign(result.capabilities, {
-						prompts: {
-							listChanged: true
-						} satisfies ServerCapabilities['prompts']
-					});
+		try {
+			const delivered = await this.send({
+				jsonrpc: '2.0',
+				id,
+				method,
+				...(params ? { params } : {})
+			});
+			if (delivered === false) {
+				throw mcpError('INTERNAL_ERROR', `No stream to send ${method} to the client on`);
+			}
+			const message = await Promise.race([response, stopped]);
+			if ('error' in message) {
+				throw new MCPError(message.error.code, message.error.message, message.error.data);
+			}
+			return message.result as R;
+		} finally {
+			done = true;
+			clearTimeout(timer);
+			this.runtime.pending.forget(this.session.id, id);
+		}
+	};
+
+	private context = (
+		id?: RequestId,
+		signal = new AbortController().signal,
+		progressToken?: ProgressToken
+	): MethodContext => {
+		return {
+			id,
+			event: this.event,
+			session: this.session,
+			principal: this.principal,
+			notify: this.notify,
+			log: createLogger(this.session, this.notify, this.server.logSink),
+			sample: async (params, options) => {
+				if (!this.session.clientCapabilities.sampling) {
+					throw mcpError('INVALID_REQUEST', 'The client does not support sampling');
 				}
-				return result;
+				return this.request<CreateMessageResult>('sampling/createMessage', params, {
+					signal,
+					...options
+				});
 			},
-			notifications: {
-				initialized: async () => {
-					return {};
+			elicit: async ({ message, schema }, options) => {
+				if (!this.session.clientCapabilities.elicitation) {
+					throw mcpError('INVALID_REQUEST', 'The client does not support elicitation');
 				}
+				const result = await this.request<ElicitResult>(
+					'elicitation/create',
+					{ message, requestedSchema: toElicitationSchema(schema) },
+					{ signal, ...options }
+				);
+				return elicitResponse(schema, result);
 			},
-			prompts: {
-				get: async (payload) => {
-					if (!this.hasPrompts) {
-						return mcpError('METHOD_NOT_FOUND');
-					}
+			signal,
+			progress: async (progress, total, message) => {
+				if (progressToken === undefined) {
+					return;
+				}
+				await this.notify('notifications/progress', {
+					progressToken,
+					progress,
+					...(total !== undefined ? { total } : {}),
+					...(message ? { message } : {})
+				});
+			}
+		};
+	};
+
+	// Resolves with undefined when the client cancelled the request, as it expects no answer then.
+	public handle = async (request: RPCRequest) => {
+		const { method, params, id } = request;
+		const custom = !!this.server.methods && Object.hasOwn(this.server.methods, method);
+		const handlerMethod = (
+			custom
+				? this.server.methods![method]
+				: Object.hasOwn(this.requestHandlers, method)
+					? this.requestHandlers[method]
+					: undefined
+		) as MethodHandler | undefined;
+
+		if (!handlerMethod) {
+			return errorMessage(mcpError('METHOD_NOT_FOUND', `Method not found: ${method}`), id);
+		}
 
-					const prompt = this.server.prompts?.[payload.name];
+		// The built-in methods rely on the params the spec requires.
+		const problems = custom ? [] : invalidParams(method, params);
+		if (problems.length) {
+			return errorMessage(mcpError('INVALID_PARAMS', `Invalid params: ${problems.join(', ')}`), id);
+		}
 
-					if (!prompt) {
-						return mcpError('METHOD_NOT_FOUND');
+		const controller = this.runtime.inFlight.start(this.session.id, id);
+		this.controllers.add(controller);
+		try {
+			const result = await handlerMethod(
+				params,
+				this.context(id, controller.signal, (params as Request['params'])?._meta?.progressToken)
+			);
+			if (controller.signal.aborted) {
+				return undefined;
+			}
+			if (result instanceof MCPError) {
+				return errorMessage(result, id);
+			}
+			return { jsonrpc: '2.0', id, result } satisfies JSONRPCResponse;
+		} catch (err) {
+			if (controller.signal.aborted) {
+				return undefined;
+			}
+			return errorMessage(err instanceof MCPError ? err : 'INTERNAL_ERROR', id);
+		} finally {
+			this.runtime.inFlight.finish(this.session.id, id);
+			this.controllers.delete(controller);
+		}
+	};
+
+	// Notifications never get an answer, even when they fail or are unknown.
+	public handleNotification = async (notification: JSONRPCNotification) => {
+		const { method, params } = notification;
+		const handlerMethod = (
+			Object.hasOwn(this.notificationHandlers, method)
+				? this.notificationHandlers[method as NotificationMethod]
+				: undefined
+		) as MethodHandler | undefined;
+		try {
+			await handlerMethod?.(params, this.context());
+		} catch {
+			// ignored
+		}
+	};
+
+	private get notificationHandlers(): NotificationHandlers {
+		return {
+			'notifications/initialized': async () => {
+				return {};
+			},
+			'notifications/cancelled': async ({ requestId, reason }) => {
+				this.runtime.inFlight.cancel(this.session.id, requestId, reason);
+				return {};
+			}
+		};
+	}
+
+	private paginate = <T>(sources: PageSource<T>[], cursor?: string) => {
+		return paginate(sources, cursor, this.server.pageSize);
+	};
+
+	private nextCursor = (page: Page<unknown>) => {
+		return page.nextCursor ? { nextCursor: page.nextCursor } : {};
+	};
+
+	// Tools cache their results when they ask to, or when they are read-only and the server caches.
+	private cacheOptions = (tool: Tool<any, any, any, any>) => {
+		const { cache, annotations } = tool['~config'];
+		if (cache !== undefined) {
+			return cache || undefined;
+		}
+		return annotations?.readOnlyHint ? this.server.cache : undefined;
+	};
+
+	private callOptions = async (
+		name: string,
+		tool: Tool<any, any, any, any>,
+		input: unknown
+	): Promise<CallOptions> => {
+		const {
+			timeout = this.server.timeout,
+			retry = this.server.retry,
+			annotations
+		} = tool['~config'];
+		const cache = this.cacheOptions(tool);
+		const key =
+			cache &&
+			(await cacheKey(
+				name,
+				input,
+				cacheScope(cache, { session: this.session, principal: this.principal })
+			));
+		return {
+			timeout: timeout || undefined,
+			// Calls that may have had effects cannot safely run twice.
+			retry: (annotations?.idempotentHint && retry) || undefined,
+			cache: cache && ((compute) => this.runtime.cache.get(key!, cache, compute))
+		};
+	};
+
+	private get requestHandlers(): RequestHandlers {
+		return {
+			initialize: async (payload) => {
+				const protocolVersion = negotiateProtocolVersion(payload.protocolVersion);
+				await this.session['~initialize']({
+					protocolVersion,
+					clientInfo: payload.clientInfo,
+					clientCapabilities: payload.capabilities ?? {},
+					subject: this.principal?.subject
+				});
+
+				const result: InitializeResult = {
+					serverInfo: {
+						name: this.server.name,
+						version: this.server.version
+					},
+					protocolVersion,
+					// Tools, prompts and resources may be added at runtime, even for a single session
+					// once it started, so they are advertised whether there are any yet or not.
+					capabilities: {
+						logging: {},
+						tools: { listChanged: true },
+						resources: { listChanged: true, subscribe: true },
+						prompts: { listChanged: true },
+						...(supports(protocolVersion, 'completions') ? { completions: {} } : {})
 					}
+				};
+				return result;
+			},
+			'prompts/get': async (payload, { log }) => {
+				const prompt = this.server.prompts?.[payload.name];
+
+				if (!prompt) {
+					return mcpError('INVALID_PARAMS', `Unknown prompt: ${payload.name}`);
+				}
 
-					let validatedPayload: any;
+				let validatedPayload: any;
+				try {
+					validatedPayload = await prompt['~validate'](payload.arguments);
+				} catch (err) {
+					return err instanceof MCPError ? err : mcpError('INVALID_PARAMS');
+				}
+				const result = await prompt['~call'](validatedPayload, this.session, log);
+				if (result instanceof MCPError) {
+					return result;
+				}
+				if (result instanceof PromptResult) {
 					try {
-						validatedPayload = await prompt['~validate'](payload.arguments);
+						return await result['~build']({
+							resources: this.server.resources || {},
+							session: this.session,
+							log
+						});
 					} catch (err) {
 						return err instanceof MCPError ? err : mcpError('INTERNAL_ERROR');
 					}
-					const result = await prompt['~call'](validatedPayload, this.sessionId);
-					if (result instanceof MCPError) {
-						return result;
-					}
-					return {
-						description: result.description,
-						messages: [
-							{
-								content: {
-									type: 'text',
-									text: result.text
-								},
-								role: result.role || 'assistant'
-							}
-						]
-					};
-				},
-				list: async (payload) => {
-					if (!this.hasPrompts) {
-						return mcpError('METHOD_NOT_FOUND');
-					}
-					return {
-						prompts: definePrompts(this.server.prompts || {})
-					};
 				}
-			},
-			resources: {
-				list: async (payload) => {
-					if (!this.hasResources && !this.hasWidgets) {
-						return mcpError('METHOD_NOT_FOUND');
-					}
-					const resources = this.hasResources ? defineResources(this.server.resources || {}) : [];
-					const widgets = this.hasWidgets
-						? defineWidgets(this.server.widgets || {}, this.domain)
-						: [];
-					return {
-						resources: [...resources, ...widgets]
-					};
-				},
-				templates: {
-					list: async (payload) => {
-						if (!this.hasResources) {
-							return mcpError('METHOD_NOT_FOUND');
+				if ('messages' in result) {
+					return result;
+				}
+				return {
+					description: result.description,
+					messages: [
+						{
+							content: {
+								type: 'text',
+								text: result.text
+							},
+							role: result.role || 'assistant'
 						}
+					]
+				};
+			},
+			'prompts/list': async (payload) => {
+				const page = await this.paginate(
+					[listSource(definePrompts(this.server.prompts || {}), (prompt) => prompt.name)],
+					payload?.cursor
+				);
+				return {
+					prompts: page.items.map((prompt) => adaptPrompt(this.session.protocolVersion, prompt)),
+					...this.nextCursor(page)
+				};
+			},
+			'resources/list': async (payload) => {
+				const resources = this.server.resources || {};
+				const page = await this.paginate(
+					[
+						listSource(defineResources(resources), (resource) => resource.uri),
+						listSource(
+							defineWidgets(this.server.widgets || {}, this.domain),
+							(widget) => widget.uri
+						),
+						...Object.values(resources)
+							.filter((resource) => resource['~config'].list)
+							.map((resource) => resource['~list'](this.session))
+					],
+					payload?.cursor
+				);
+				return { resources: page.items, ...this.nextCursor(page) };
+			},
+			'resources/templates/list': async (payload) => {
+				const page = await this.paginate(
+					[
+						listSource(
+							defineResourceTemplates(this.server.resources || {}),
+							(template) => template.name
+						)
+					],
+					payload?.cursor
+				);
+				return { resourceTemplates: page.items, ...this.nextCursor(page) };
+			},
+			'resources/read': async (payload, { log }) => {
+				if (payload.uri.startsWith('widget://')) {
+					const widget = Object.values(this.server.widgets || {}).find((widget) => {
+						console.log(widget.id, payload.uri.split('//')[1]);
+						return widget.id.includes(payload.uri.split('//')[1].split('.')[0]);
+					});
 
-						return {
-							resourceTemplates: defineResourceTemplates(this.server.resources || {})
-						};
-					}
-				},
-				read: async (payload) => {
-					if (!this.hasResources && !this.hasWidgets) {
-						return mcpError('METHOD_NOT_FOUND');
+					if (!widget) {
+						return mcpError('RESOURCE_NOT_FOUND');
 					}
+					return widget.result(this.domain);
+				}
 
-					if (payload.uri.startsWith('widget://')) {
-						const widget = Object.values(this.server.widgets || {}).find((widget) => {
-							console.log(widget.id, payload.uri.split('//')[1]);
-							return widget.id.includes(payload.uri.split('//')[1].split('.')[0]);
-						});
-
-						if (!widget) {
-							return mcpError('RESOURCE_NOT_FOUND');
-						}
-						return widget.result(this.domain);
-					}
+				const found = findResource(this.server.resources || {}, payload.uri);
+				if (!found) {
+					return mcpError('RESOURCE_NOT_FOUND', undefined, { uri: payload.uri });
+				}
 
-					const resource = Object.values(this.server.resources || {}).find(
-						(resource) => resource['~config'].uri === payload.uri
+				return found.resource['~call'](payload.uri, this.session, found.params, log);
+			},
+			'resources/subscribe': async (payload) => {
+				const found = findResource(this.server.resources || {}, payload.uri);
+				if (!found) {
+					return mcpError('RESOURCE_NOT_FOUND', undefined, { uri: payload.uri });
+				}
+				if (!found.resource['~config'].subscribable) {
+					return mcpError(
+						'INVALID_PARAMS',
+						`Resource does not support subscriptions: ${payload.uri}`
 					);
-					const templatedResource = resource
-						? null
-						: Object.values(this.server.resources || {}).find((resource) => {
-								const templateRegex = /\{[^{}]*\}/g;
-								return templateRegex.test(resource['~config'].uri || '');
-							}) || null;
-
-					if (!(resource || templatedResource)) {
-						return mcpError('RESOURCE_NOT_FOUND');
-					}
+				}
 
-					const result = await (resource || templatedResource)!['~call'](
-						payload.uri,
-						this.sessionId
+				this.runtime.subscriptions.subscribe(this.session.id, payload.uri);
+				return {};
+			},
+			'resources/unsubscribe': async (payload) => {
+				this.runtime.subscriptions.unsubscribe(this.session.id, payload.uri);
+				return {};
+			},
+			'completion/complete': async ({ ref, argument, context }) => {
+				const completions =
+					ref.type === 'ref/prompt'
+						? this.server.prompts?.[ref.name]?.['~config'].completions
+						: Object.values(this.server.resources || {}).find(
+								(resource) => resource['~config'].uri === ref.uri
+							)?.['~config'].completions;
+				if (!completions) {
+					return mcpError(
+						'INVALID_PARAMS',
+						`Unknown reference: ${ref.type === 'ref/prompt' ? ref.name : ref.uri}`
 					);
+				}
 
-					return result;
+				const completion = completions[argument.name];
+				if (!completion) {
+					return { completion: { values: [] } };
 				}
-				// subscribe: async (payload) => {
-				//   return Server.resources.subscribe(payload, ctx);
-				// },
-				// unsubscribe: async (payload) => {
-				//   return Server.resources.unsubscribe(payload, ctx);
-				// }
+				return complete(completion, {
+					value: argument.value,
+					arguments: context?.arguments ?? {},
+					sessionId: this.session.id,
+					session: this.session
+				});
 			},
-			tools: {
-				call: async (payload) => {
-					if (!this.hasTools) {
-						return mcpError('METHOD_NOT_FOUND');
-					}
+			'logging/setLevel': async ({ level }) => {
+				if (!isLoggingLevel(level)) {
+					return mcpError('INVALID_PARAMS', `Invalid logging level: ${level}`);
+				}
+				await this.session['~setLogLevel'](level);
+				return {};
+			},
+			'tools/call': async (payload, { signal, progress, log, sample, elicit }) => {
+				const tool = this.server.tools?.[payload.name];
 
-					const tool = this.server.tools?.[payload.name];
+				if (!tool) {
+					return mcpError('INVALID_PARAMS', `Unknown tool: ${payload.name}`);
+				}
 
-					if (!tool) {
-						return mcpError('METHOD_NOT_FOUND');
-					}
+				let validatedPayload: any;
+				try {
+					validatedPayload = await tool['~validate'](payload.arguments);
+				} catch (err) {
+					const error = err instanceof MCPError ? err : mcpError('INVALID_PARAMS');
+					const errors = tool['~config'].inputOptions?.errors ?? this.server.inputErrors;
+					return errors === 'result' ? new ToolError(error.message).result : error;
+				}
 
-					let validatedPayload: any;
-					try {
-						validatedPayload = await tool['~validate'](payload.arguments);
-					} catch (err) {
-						return err instanceof MCPError ? err : mcpError('INVALID_PARAMS');
+				const releases: (() => Promise<void>)[] = [];
+				const limits = [
+					['server', this.server.rateLimit],
+					[`tool:${payload.name}`, tool['~config'].rateLimit]
+				] as const;
+				for (const [scope, limit] of limits) {
+					if (!limit) {
+						continue;
 					}
-
-					const result = await tool['~call'](validatedPayload, this.event, this.sessionId);
-					const toolWidget = tool['~config'].widget;
-					if (toolWidget) {
-						return {
-							...result,
-							_meta: {
-								...result._meta,
-								...toolWidget.toolMetadata
-							}
-						};
+					const slot = await this.runtime.rateLimiter.acquire(scope, limit, {
+						event: this.event,
+						session: this.session,
+						principal: this.principal
+					});
+					if ('retryAfter' in slot) {
+						await Promise.all(releases.map((release) => release()));
+						return rateLimited(limit, slot.retryAfter);
 					}
+					releases.push(slot.release);
+				}
 
-					return result;
-				},
-				list: async (payload) => {
-					if (!this.hasTools) {
-						return mcpError('METHOD_NOT_FOUND');
-					}
+				let result: CallToolResult;
+				try {
+					result = adaptToolResult(
+						this.session.protocolVersion,
+						await tool['~call'](
+							validatedPayload,
+							{
+								event: this.event,
+								session: this.session,
+								client: clientContext(this.session),
+								principal: this.principal,
+								signal,
+								progress,
+								log,
+								sample,
+								elicit
+							},
+							this.server.middleware,
+							await this.callOptions(payload.name, tool, validatedPayload)
+						)
+					);
+				} finally {
+					await Promise.all(releases.map((release) => release()));
+				}
+				const toolWidget = tool['~config'].widget;
+				if (toolWidget) {
 					return {
-						tools: defineTools(this.server.tools || {})
+						...result,
+						_meta: {
+							...result._meta,
+							...toolWidget.toolMetadata
+						}
 					};
 				}
+
+				return result;
+			},
+			'tools/list': async (payload) => {
+				const page = await this.paginate(
+					[listSource(defineTools(this.server.tools || {}), (tool) => tool.name)],
+					payload?.cursor
+				);
+				return {
+					tools: page.items.map((tool) => adaptTool(this.session.protocolVersion, tool)),
+					...this.nextCursor(page)
+				};
 			},
-			ping: async (payload) => {
+			ping: async () => {
 				return {};
 			}
 		};
@@ -1,90 +1,345 @@
-import { errorResponse, MCPError } from './errors';
+import { errorMessage, errorResponse, MCPError, mcpError } from './errors';
 import { MCPHandler, type RPCRequest } from './handler';
 import { type MCPServer } from './types';
-import { streamMessages } from './utils/streamMessages';
-import { handleGetDeleteMethodNotAllowed } from './utils/handleGetDelete';
-import type { Handle } from '@sveltejs/kit';
-import { handleCors } from './utils/cors';
-export { tool, defineTools } from './tools';
+import { handleMethodNotAllowed } from './utils/methodNotAllowed';
+import type { Handle, RequestEvent } from '@sveltejs/kit';
+import { handleCors, withCors } from './utils/cors';
+import { SSEConnection } from './utils/sse';
+import { Session } from './session';
+import { Server } from './server';
+import { idOf, isNotification, isRequest, isResponse, parseMessage } from './jsonrpc';
+import { isSupportedProtocolVersion } from './protocol';
+import type {
+	CallToolRequest,
+	JSONRPCError,
+	JSONRPCNotification,
+	JSONRPCResponse
+} from './types/spec';
+import {
+	authChallenge,
+	authenticate,
+	isProtectedResourceMetadataRequest,
+	missingScopes,
+	protectedResourceMetadata,
+	type Principal
+} from './auth';
+export {
+	tool,
+	defineTools,
+	middleware,
+	ToolError,
+	type ToolMiddleware,
+	type MiddlewareResult,
+	type InputOptions
+} from './tools';
+export { toolResult, ToolResult, promptResult, PromptResult } from './result';
 export { prompt, definePrompts } from './prompts';
 export { resource, defineResources } from './resources';
+export type { CompleteFunction, CompletePayload } from './completion';
+export type { Logger, LogEntry, LogSink } from './logging';
+export type { ElicitParams, ElicitResponse, ElicitationSchema } from './elicitation';
+export { UriTemplate, expandTemplate, type TemplateParams } from './utils/uriTemplate';
+export {
+	SUPPORTED_PROTOCOL_VERSIONS,
+	negotiateProtocolVersion,
+	supports,
+	type ClientContext,
+	type ProtocolFeature
+} from './protocol';
+export {
+	jwtVerifier,
+	type AuthConfig,
+	type Principal,
+	type TokenVerifier,
+	type JWKS
+} from './auth';
+export type { MethodHandler, MethodContext, CustomMethods, RequestOptions } from './handler';
+export { InMemoryEventStore, type EventStore } from './transport';
+export { mcpServer, Server, Registry } from './server';
+export { InMemorySessionStore, Session, type SessionStore, type SessionData } from './session';
+export { InMemoryCacheStore, type CacheStore, type CacheEntry, type CacheOptions } from './cache';
+export {
+	InMemoryCounterStore,
+	type CounterStore,
+	type RateLimit,
+	type RateLimitContext
+} from './ratelimit';
+export type { RetryOptions } from './retry';
+export {
+	KVSessionStore,
+	DurableObjectSessionStore,
+	handleSessionObject,
+	KVCacheStore,
+	CacheApiStore,
+	type CacheLike,
+	type KVNamespaceLike,
+	type DurableObjectNamespaceLike,
+	type DurableObjectStorageLike
+} from './cloudflare';
+export type { ValidationIssue } from './types/standardSchema';
+export {
+	toJsonSchema,
+	registerJsonSchemaConverter,
+	type JsonSchemaConverter,
+	type JsonSchemaOptions
+} from './utils/toJsonSchema';
 export * from './types/spec';
 
-export const handleMCP = (server: MCPServer): Handle => {
-	return async ({ event, resolve }) => {
-		if (event.url.pathname.startsWith('/mcp')) {
-			if (event.request.method === 'OPTIONS') {
-				return handleCors();
+const accepts = (request: Request, mimeType: string) => {
+	return request.headers.get('Accept')?.includes(mimeType) ?? false;
+};
+
+export const handleMCP = (serverOrConfig: MCPServer | Server): Handle => {
+	const runtime = serverOrConfig instanceof Server ? serverOrConfig : new Server(serverOrConfig);
+	const { config: server, transport, sessionStore } = runtime;
+
+	const loadSession = async (event: RequestEvent, principal?: Principal) => {
+		const sessionId = event.request.headers.get('Mcp-Session-Id');
+		if (!sessionId) {
+			return errorResponse(
+				mcpError('INVALID_REQUEST', 'Bad Request: Mcp-Session-Id header is required')
+			);
+		}
+		const session = await Session.load(sessionStore, sessionId);
+		// A session belongs to the user who started it.
+		if (!session || (session.subject && session.subject !== principal?.subject)) {
+			return errorResponse(mcpError('INVALID_REQUEST', 'Session not found'), undefined, 404);
+		}
+		// Clients repeat the negotiated version on every request, assume it when they don't.
+		const protocolVersion = event.request.headers.get('MCP-Protocol-Version');
+		if (
+			protocolVersion &&
+			(!isSupportedProtocolVersion(protocolVersion) || protocolVersion !== session.protocolVersion)
+		) {
+			return errorResponse(
+				mcpError('INVALID_REQUEST', `Bad Request: Unsupported protocol version ${protocolVersion}`)
+			);
+		}
+		return session;
+	};
+
+	const handleGet = async (event: RequestEvent, principal?: Principal) => {
+		if (!accepts(event.request, 'text/event-stream')) {
+			return handleMethodNotAllowed();
+		}
+
+		const session = await loadSession(event, principal);
+		if (session instanceof Response) {
+			return session;
+		}
+
+		const connection = new SSEConnection();
+		const lastEventId = event.request.headers.get('Last-Event-ID');
+		if (lastEventId) {
+			try {
+				await transport.resume(session.id, lastEventId, connection);
+			} catch (err) {
+				console.error('Failed to replay the events of a stream', err);
+				connection.close();
+				return errorResponse('INTERNAL_ERROR', session.id, 500);
 			}
+		} else {
+			transport.listen(session.id, connection);
+		}
+
+		return connection.response({ 'Mcp-Session-Id': session.id });
+	};
+
+	const handleDelete = async (event: RequestEvent, principal?: Principal) => {
+		const session = await loadSession(event, principal);
+		if (session instanceof Response) {
+			return session;
+		}
 
-			if (event.request.method === 'GET' || event.request.method === 'DELETE') {
-				return handleGetDeleteMethodNotAllowed();
+		await session['~terminate']();
+		runtime.endSession(session.id);
+		return new Response(null, { status: 200 });
+	};
+
+	const handlePost = async (event: RequestEvent, principal?: Principal) => {
+		let body: unknown;
+
+		try {
+			body = await event.request.json();
+		} catch {
+			return errorResponse('PARSE_ERROR');
+		}
+
+		const isBatch = Array.isArray(body);
+		const values = Array.isArray(body) ? body : [body];
+		if (!values.length) {
+			return errorResponse(mcpError('INVALID_REQUEST', 'Invalid request: empty batch'));
+		}
+
+		const invalid: ReturnType<typeof errorMessage>[] = [];
+		const requests: RPCRequest[] = [];
+		const notifications: JSONRPCNotification[] = [];
+		const responses: (JSONRPCResponse | JSONRPCError)[] = [];
+		for (const value of values) {
+			const message = parseMessage(value);
+			if (message instanceof MCPError) {
+				invalid.push(errorMessage(message, idOf(value)));
+			} else if (isRequest(message)) {
+				requests.push(message as RPCRequest);
+			} else if (isNotification(message)) {
+				notifications.push(message);
+			} else if (isResponse(message)) {
+				responses.push(message);
 			}
+		}
 
-			const sessionId = event.request.headers.get('Mcp-Session-Id') || crypto.randomUUID();
-			let body: RPCRequest;
-			const headers = {
-				'Content-Type': 'application/json',
-				'Mcp-Session-Id': sessionId
-			};
+		const initialization = requests.some((request) => request.method === 'initialize');
+		if (initialization && values.length > 1) {
+			return errorResponse(
+				mcpError('INVALID_REQUEST', 'Invalid request: initialize must not be part of a batch')
+			);
+		}
 
-			try {
-				body = (await event.request.json()) as RPCRequest;
-			} catch {
-				return errorResponse('PARSE_ERROR', sessionId);
+		// Answered even without a session, as there is nothing else to handle.
+		if (!requests.length && !notifications.length && !responses.length) {
+			return new Response(JSON.stringify(isBatch ? invalid : invalid[0]), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+
+		if (server.auth) {
+			const { tools } = runtime.configFor(event.request.headers.get('Mcp-Session-Id'));
+			const scopes = requests.flatMap((request) => {
+				const name = request.method === 'tools/call' && (request as CallToolRequest).params?.name;
+				return (name && tools[name]?.['~config'].scopes) || [];
+			});
+			const missing = missingScopes(principal, scopes);
+			if (missing.length) {
+				return authChallenge(
+					server.auth,
+					event,
+					principal && {
+						code: 'insufficient_scope',
+						description: 'The access token lacks the scopes this tool requires',
+						scopes: missing
+					}
+				);
 			}
+		}
+
+		// Sessions only start with initialization, every other request must belong to one.
+		const session = initialization
+			? Session.create(sessionStore)
+			: await loadSession(event, principal);
+		if (session instanceof Response) {
+			return session;
+		}
 
-			const handler = new MCPHandler(server, event, server.domain || event.url.origin, sessionId);
-			const { method, params, id } = body;
-			let handlerMethod = handler.mpcHandler as any;
+		// Responses answer the requests the server sent, e.g. for sampling.
+		for (const response of responses) {
+			runtime.pending.resolve(session.id, response);
+		}
 
-			for (const key of method.split('/')) {
-				if (key in handlerMethod) {
-					handlerMethod = handlerMethod[key];
+		const headers = { 'Mcp-Session-Id': session.id };
+		const domain = server.domain || event.url.origin;
+		const json = (responses: unknown[], status = 200) => {
+			return new Response(JSON.stringify(isBatch ? responses : responses[0]), {
+				status,
+				headers: { 'Content-Type': 'application/json', ...headers }
+			});
+		};
+
+		if (!requests.length) {
+			const handler = new MCPHandler(
+				runtime,
+				event,
+				domain,
+				session,
+				principal,
+				async (message) => {
+					return transport.notify(session.id, message);
 				}
-			}
+			);
+			await Promise.all(notifications.map(handler.handleNotification));
+			return invalid.length ? json(invalid, 400) : new Response(null, { status: 202, headers });
+		}
+
+		if (server.jsonResponse || !accepts(event.request, 'text/event-stream')) {
+			// Messages emitted while handling the request go to the session's GET stream, if any.
+			const handler = new MCPHandler(
+				runtime,
+				event,
+				domain,
+				session,
+				principal,
+				async (message) => {
+					return transport.notify(session.id, message);
+				}
+			);
+			// Nothing can be resumed here, the requests are useless once the client went away.
+			event.request.signal?.addEventListener('abort', handler.abort);
+			const [responses] = await Promise.all([
+				Promise.all(requests.map(handler.handle)),
+				Promise.all(notifications.map(handler.handleNotification))
+			]);
+			// Cancelled requests get no response.
+			const answered = [...invalid, ...responses.filter(Boolean)];
+			return answered.length ? json(answered) : new Response(null, { status: 202, headers });
+		}
+
+		const connection = new SSEConnection();
+		const stream = transport.open(session.id, connection, () => handler.abort());
+		const handler = new MCPHandler(runtime, event, domain, session, principal, stream.send);
 
-			if (!handlerMethod) {
-				return errorResponse('METHOD_NOT_FOUND', sessionId);
+		// A response the event store failed to keep becomes an error, if the client is still there.
+		const deliver = (message: JSONRPCResponse | JSONRPCError) =>
+			stream.send(message).catch((err) => {
+				console.error('Failed to send a message on the stream', err);
+				stream.write(errorMessage('INTERNAL_ERROR', message.id));
+			});
+
+		// The responses are streamed as they complete, along with the messages emitted meanwhile,
+		// then the stream ends.
+		Promise.all([
+			...invalid.map((message) => deliver(message as JSONRPCError)),
+			...requests.map((request) =>
+				handler.handle(request).then((response) => response && deliver(response))
+			),
+			...notifications.map(handler.handleNotification)
+		]).finally(stream.end);
+
+		return connection.response(headers);
+	};
+
+	const route = (event: RequestEvent, principal?: Principal) => {
+		switch (event.request.method) {
+			case 'GET':
+				return handleGet(event, principal);
+			case 'POST':
+				return handlePost(event, principal);
+			case 'DELETE':
+				return handleDelete(event, principal);
+			default:
+				return handleMethodNotAllowed();
+		}
+	};
+
+	return async ({ event, resolve }) => {
+		if (server.auth && isProtectedResourceMetadataRequest(event)) {
+			return protectedResourceMetadata(server.auth, event);
+		}
+
+		if (event.url.pathname.startsWith('/mcp')) {
+			if (event.request.method === 'OPTIONS') {
+				return handleCors();
 			}
 
-			try {
-				const result = await handlerMethod(params, event);
-
-				if (result instanceof MCPError) {
-					return errorResponse(result, sessionId);
-				} else {
-					// if (result.length) {
-					// 	console.log('render stream');
-					// 	const [data, ...notifications] = result;
-					// 	return streamMessages(
-					// 		[
-					// 			{
-					// 				jsonrpc: '2.0',
-					// 				id,
-					// 				result: data
-					// 			},
-					// 			...notifications
-					// 		],
-					// 		id
-					// 	);
-					// } else {
-					return new Response(
-						JSON.stringify({
-							jsonrpc: '2.0',
-							id,
-							result
-						}),
-						{
-							headers
-						}
-					);
-					// }
+			let principal: Principal | undefined;
+			if (server.auth) {
+				const result = await authenticate(server.auth, event);
+				if (result instanceof Response) {
+					return result;
 				}
-			} catch (error) {
-				return errorResponse('INTERNAL_ERROR', sessionId);
+				principal = result;
 			}
-			return resolve(event);
+
+			return withCors(await route(event, principal));
 		}
 
 		return resolve(event);
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { MCPError } from './errors';
+import {
+	idOf,
+	isNotification,
+	isRequest,
+	isResponse,
+	invalidParams,
+	parseMessage
+} from './jsonrpc';
+import type { JSONRPCMessage } from './types/spec';
+
+describe('parseMessage', () => {
+	it('accepts requests, notifications and responses', () => {
+		const messages = [
+			{ jsonrpc: '2.0', id: 1, method: 'ping' },
+			{ jsonrpc: '2.0', id: 'a', method: 'tools/call', params: { name: 'echo' } },
+			{ jsonrpc: '2.0', method: 'notifications/initialized' },
+			{ jsonrpc: '2.0', id: 1, result: {} },
+			{ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }
+		];
+
+		for (const message of messages) {
+			expect(parseMessage(message)).toBe(message);
+		}
+	});
+
+	it('rejects anything else as an invalid request', () => {
+		const invalid = [
+			null,
+			[],
+			{ jsonrpc: '1.0', id: 1, method: 'ping' },
+			{ jsonrpc: '2.0', id: null, method: 'ping' },
+			{ jsonrpc: '2.0', id: {}, method: 'ping' },
+			{ jsonrpc: '2.0', id: 1, method: 1 },
+			{ jsonrpc: '2.0', id: 1, method: 'ping', params: [] },
+			{ jsonrpc: '2.0', id: 1, result: 'ok' },
+			{ jsonrpc: '2.0', id: 1 }
+		];
+
+		for (const message of invalid) {
+			const error = parseMessage(message);
+			expect(error).toBeInstanceOf(MCPError);
+			expect(error).toMatchObject({ '~code': -32600 });
+		}
+	});
+});
+
+describe('idOf', () => {
+	it('reads the id of a message when it is a valid one', () => {
+		expect(idOf({ id: 7 })).toBe(7);
+		expect(idOf({ id: 'seven' })).toBe('seven');
+		expect(idOf({ id: {} })).toBeNull();
+		expect(idOf([{ id: 7 }])).toBeNull();
+		expect(idOf('7')).toBeNull();
+	});
+});
+
+describe('isRequest, isNotification and isResponse', () => {
+	it('tell the kinds of messages apart', () => {
+		const request = { jsonrpc: '2.0', id: 1, method: 'ping' } as JSONRPCMessage;
+		const notification = { jsonrpc: '2.0', method: 'ping' } as JSONRPCMessage;
+		const response = { jsonrpc: '2.0', id: 1, result: {} } as JSONRPCMessage;
+
+		expect([request, notification, response].map(isRequest)).toEqual([true, false, false]);
+		expect([request, notification, response].map(isNotification)).toEqual([false, true, false]);
+		expect([request, notification, response].map(isResponse)).toEqual([false, false, true]);
+	});
+});
+
+describe('invalidParams', () => {
+	it('lists the required params of built-in methods that are missing', () => {
+		expect(invalidParams('tools/call')).toEqual(['missing name']);
+		expect(invalidParams('completion/complete', { ref: {}, argument: undefined })).toEqual([
+			'missing argument'
+		]);
+		expect(invalidParams('resources/read', { uri: 'docs://readme' })).toEqual([]);
+	});
+
+	it('lists the required params that have the wrong type', () => {
+		expect(invalidParams('resources/read', { uri: 5 })).toEqual(['uri must be a string']);
+		expect(invalidParams('completion/complete', { ref: 'prompt', argument: [] })).toEqual([
+			'ref must be an object',
+			'argument must be an object'
+		]);
+	});
+
+	it('requires nothing of other methods', () => {
+		expect(invalidParams('ping')).toEqual([]);
+		expect(invalidParams('custom/method')).toEqual([]);
+		expect(invalidParams('toString')).toEqual([]);
+	});
+});
@@ -0,0 +1,86 @@
+import { mcpError, type MCPError } from './errors';
+import type {
+	JSONRPCError,
+	JSONRPCMessage,
+	JSONRPCNotification,
+	JSONRPCRequest,
+	JSONRPCResponse,
+	RequestId
+} from './types/spec';
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isRequestId = (value: unknown): value is RequestId => {
+	return typeof value === 'string' || typeof value === 'number';
+};
+
+export const isRequest = (message: JSONRPCMessage): message is JSONRPCRequest => {
+	return 'method' in message && 'id' in message;
+};
+
+export const isNotification = (message: JSONRPCMessage): message is JSONRPCNotification => {
+	return 'method' in message && !('id' in message);
+};
+
+export const isResponse = (message: JSONRPCMessage): message is JSONRPCResponse | JSONRPCError => {
+	return !('method' in message) && ('result' in message || 'error' in message);
+};
+
+// The params the built-in methods cannot do without, as the spec requires them, and their types.
+const REQUIRED_PARAMS: Record<string, Record<string, 'string' | 'object'>> = {
+	initialize: { protocolVersion: 'string', capabilities: 'object', clientInfo: 'object' },
+	'tools/call': { name: 'string' },
+	'prompts/get': { name: 'string' },
+	'resources/read': { uri: 'string' },
+	'resources/subscribe': { uri: 'string' },
+	'resources/unsubscribe': { uri: 'string' },
+	'completion/complete': { ref: 'object', argument: 'object' },
+	'logging/setLevel': { level: 'string' }
+};
+
+// What is wrong with the required params of a built-in method, if anything.
+export const invalidParams = (method: string, params?: Record<string, unknown>) => {
+	const required = Object.hasOwn(REQUIRED_PARAMS, method) ? REQUIRED_PARAMS[method] : {};
+	const problems: string[] = [];
+	for (const [name, type] of Object.entries(required)) {
+		const value = params?.[name];
+		if (value === undefined) {
+			problems.push(`missing ${name}`);
+		} else if (type === 'object' ? !isObject(value) : typeof value !== type) {
+			problems.push(`${name} must be ${type === 'object' ? 'an object' : 'a string'}`);
+		}
+	}
+	return problems;
+};
+
+// The id to echo back when a message is invalid, when it can be read at all.
+export const idOf = (value: unknown) => {
+	return isObject(value) && isRequestId(value.id) ? value.id : null;
+};
+
+export const parseMessage = (value: unknown): JSONRPCMessage | MCPError => {
+	if (!isObject(value) || value.jsonrpc !== '2.0') {
+		return mcpError('INVALID_REQUEST', 'Invalid request: expected a JSON-RPC 2.0 message');
+	}
+	if ('id' in value && !isRequestId(value.id) && !(value.id === null && 'error' in value)) {
+		return mcpError('INVALID_REQUEST', 'Invalid request: id must be a string or a number');
+	}
+	if ('method' in value) {
+		if (typeof value.method !== 'string') {
+			return mcpError('INVALID_REQUEST', 'Invalid request: method must be a string');
+		}
+		if ('params' in value && value.params !== undefined && !isObject(value.params)) {
+			return mcpError('INVALID_REQUEST', 'Invalid request: params must be an object');
+		}
+		return value as unknown as JSONRPCRequest | JSONRPCNotification;
+	}
+	if (
+		('result' in value && isObject(value.result)) ||
+		('error' in value && isObject(value.error))
+	) {
+		return value as unknown as JSONRPCResponse | JSONRPCError;
+	}
+	return mcpError('INVALID_REQUEST');
+};
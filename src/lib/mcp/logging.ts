@@ -0,0 +1,54 @@
+import type { MaybePromise } from './types';
+import type { JSONRPCNotification, LoggingLevel } from './types/spec';
+import type { Session } from './session';
+
+// From the least to the most severe, as in syslog.
+export const LOGGING_LEVELS: LoggingLevel[] = [
+	'debug',
+	'info',
+	'notice',
+	'warning',
+	'error',
+	'critical',
+	'alert',
+	'emergency'
+];
+
+/** Level used until the client picks one with `logging/setLevel`. */
+export const DEFAULT_LOGGING_LEVEL: LoggingLevel = 'info';
+
+export type LogEntry = {
+	level: LoggingLevel;
+	logger?: string;
+	data: unknown;
+	sessionId: string;
+};
+
+/** Receives every log of the server, whatever the level the client asked for. */
+export type LogSink = (entry: LogEntry) => MaybePromise<void>;
+
+type LogFunction = (data: unknown, logger?: string) => Promise<void>;
+
+/** Logs sent to the client as `notifications/message`, from `data` and an optional logger name. */
+export type Logger = Record<LoggingLevel, LogFunction>;
+
+export const isLoggingLevel = (level: unknown): level is LoggingLevel => {
+	return LOGGING_LEVELS.includes(level as LoggingLevel);
+};
+
+export const createLogger = (
+	session: Session,
+	notify: (method: string, params?: JSONRPCNotification['params']) => Promise<void>,
+	sink?: LogSink
+): Logger => {
+	const log =
+		(level: LoggingLevel): LogFunction =>
+		async (data, logger) => {
+			await sink?.({ level, logger, data, sessionId: session.id });
+			const threshold = session.logLevel ?? DEFAULT_LOGGING_LEVEL;
+			if (LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(threshold)) {
+				await notify('notifications/message', { level, ...(logger ? { logger } : {}), data });
+			}
+		};
+	return Object.fromEntries(LOGGING_LEVELS.map((level) => [level, log(level)])) as Logger;
+};
@@ -1,22 +1,35 @@
 import { type MaybePromise, type OmitNever } from './types';
-import { type StandardSchemaV1, validateInput } from './types/standardSchema';
+import { type StandardSchemaV1, validationError } from './types/standardSchema';
 import { mcpError } from './errors';
 import type { Prompt as MCPPrompt } from './types/spec';
-import { toJsonSchema } from './utils/toJsonSchema';
+import { toObjectJsonSchema } from './utils/toJsonSchema';
+import type { Session } from './session';
+import type { CompleteFunction } from './completion';
+import type { Logger } from './logging';
+import { PromptResult, promptResult } from './result';
+import type { GetPromptResult } from './types/spec';
+import type { JSONSchema7 } from 'json-schema';
 
 export type PromptPayload<Schema extends StandardSchemaV1 | undefined> = OmitNever<{
 	input: Schema extends StandardSchemaV1 ? StandardSchemaV1.InferOutput<Schema> : never;
 	sessionId: string;
+	session: Session;
+	log: Logger;
 	error: typeof error;
+	result: typeof promptResult;
 }>;
 
 export type HandlePromptPayload<Schema extends StandardSchemaV1 | undefined> = (
 	payload: PromptPayload<Schema>
-) => MaybePromise<{
-	description?: string;
-	role?: 'assistant' | 'user';
-	text: string;
-}>;
+) => MaybePromise<
+	| {
+			description?: string;
+			role?: 'assistant' | 'user';
+			text: string;
+	  }
+	| PromptResult
+	| GetPromptResult
+>;
 
 type PromptConfig<
 	Schema extends StandardSchemaV1 | undefined,
@@ -25,6 +38,7 @@ type PromptConfig<
 	schema?: Schema;
 	description: string;
 	handler?: H;
+	completions: Record<string, CompleteFunction>;
 };
 
 export class Prompt<
@@ -33,23 +47,59 @@ export class Prompt<
 > {
 	'~config': PromptConfig<Schema, H>;
 	constructor(description: string) {
-		this['~config'] = { description };
+		this['~config'] = { description, completions: {} };
 	}
 
 	'~call' = (
 		input: Schema extends StandardSchemaV1 ? StandardSchemaV1.InferInput<Schema> : undefined,
-		sessionId: string
+		session: Session,
+		log: Logger
 	) => {
-		return this['~config'].handler?.({ input, sessionId, error } as PromptPayload<Schema>);
+		return this['~config'].handler?.({
+			input,
+			sessionId: session.id,
+			session,
+			log,
+			error,
+			result: promptResult
+		} as PromptPayload<Schema>);
 	};
 
 	'~validate' = async (
 		input: Schema extends StandardSchemaV1 ? StandardSchemaV1.InferInput<Schema> : undefined
 	) => {
-		if (!this['~config'].schema) {
+		const { schema } = this['~config'];
+		if (!schema) {
 			return undefined;
 		}
-		return validateInput(this['~config'].schema, input);
+		const properties = toObjectJsonSchema(schema, { io: 'input' }).properties ?? {};
+		const args: Record<string, unknown> = Object.fromEntries(
+			Object.entries(input ?? {}).map(([name, value]) => [
+				name,
+				coerce(value, properties[name] as JSONSchema7)
+			])
+		);
+
+		let result = await validate(schema, args);
+		// Dates have no JSON type to go by, strings are tried as dates once the schema rejected them.
+		const dates = (result.issues ?? [])
+			.map(argumentOf)
+			.filter((name) => typeof args[name] === 'string' && !isNaN(Date.parse(args[name])));
+		if (dates.length) {
+			const retried = await validate(schema, {
+				...args,
+				...Object.fromEntries(dates.map((name) => [name, new Date(args[name] as string)]))
+			});
+			result = retried.issues ? result : retried;
+		}
+
+		if (result.issues) {
+			const name = argumentOf(result.issues[0]);
+			throw name
+				? validationError(result.issues, `Invalid argument "${name}"`, { argument: name })
+				: validationError(result.issues, 'Invalid arguments');
+		}
+		return (result as StandardSchemaV1.SuccessResult<unknown>).value;
 	};
 
 	input = <SS extends StandardSchemaV1>(standardStandardSchemaV1: SS) => {
@@ -57,6 +107,17 @@ export class Prompt<
 		return this as unknown as Prompt<SS, HandlePromptPayload<SS>>;
 	};
 
+	// Suggests values for an argument while the user types it.
+	complete = (
+		argument: Schema extends StandardSchemaV1
+			? keyof StandardSchemaV1.InferInput<Schema> & string
+			: string,
+		complete: CompleteFunction
+	) => {
+		this['~config'].completions[argument] = complete;
+		return this;
+	};
+
 	handle = <HH extends HandlePromptPayload<Schema>>(handler: HH) => {
 		this['~config'].handler = handler as unknown as H;
 		return this as unknown as Prompt<Schema, HH>;
@@ -71,10 +132,39 @@ export const definePrompts = (prompts: Record<string, Prompt<any, any>>) => {
 	});
 };
 
+const validate = async (schema: StandardSchemaV1, value: unknown) => {
+	return await schema['~standard'].validate(value);
+};
+
+// The top-level argument an issue is about.
+const argumentOf = (issue: StandardSchemaV1.Issue) => {
+	const [segment] = issue.path ?? [];
+	const key = typeof segment === 'object' ? segment.key : segment;
+	return key === undefined ? undefined : String(key);
+};
+
+// MCP clients send every argument as a string, converted here to the type the schema declares.
+const coerce = (value: unknown, schema: JSONSchema7 | undefined) => {
+	if (typeof value !== 'string' || !schema) {
+		return value;
+	}
+	if (schema.enum) {
+		return schema.enum.find((option) => String(option) === value) ?? value;
+	}
+	const types = [schema.type].flat();
+	if ((types.includes('number') || types.includes('integer')) && value.trim() && !isNaN(+value)) {
+		return Number(value);
+	}
+	if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+		return value === 'true';
+	}
+	return value;
+};
+
 export const definePrompt = (name: string, prompt: Prompt<any, any>) => {
 	const { schema, description } = prompt['~config'];
 	const jsonSchema = schema
-		? toJsonSchema(schema)
+		? toObjectJsonSchema(schema, { io: 'input' })
 		: { type: 'object', properties: {}, required: [] };
 
 	const { properties, required } = jsonSchema;
@@ -82,10 +172,12 @@ export const definePrompt = (name: string, prompt: Prompt<any, any>) => {
 		name,
 		description,
 		arguments: Object.entries(properties ?? {}).map(([key, value]) => {
+			const { title, description } = value as JSONSchema7;
 			const isRequired = required?.some((r) => r === key);
 			return {
 				name: key,
-				description: (value as any).description ?? '',
+				...(title ? { title } : {}),
+				description: description ?? '',
 				required: isRequired ?? false
 			};
 		})
@@ -0,0 +1,108 @@
+import type {
+	CallToolResult,
+	ClientCapabilities,
+	ContentBlock,
+	Implementation,
+	Prompt as SpecPrompt,
+	Tool as SpecTool
+} from './types/spec';
+import type { Session } from './session';
+import { LATEST_PROTOCOL_VERSION } from './types/spec';
+
+/** Protocol versions this server speaks, newest first. */
+export const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+/** Version assumed when a client does not tell which one it uses. */
+export const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+// The first version each feature appeared in. Versions are dates, so they compare as strings.
+const features = {
+	audio: '2025-03-26',
+	toolAnnotations: '2025-03-26',
+	completions: '2025-03-26',
+	structuredOutput: '2025-06-18',
+	resourceLinks: '2025-06-18',
+	elicitation: '2025-06-18',
+	titles: '2025-06-18'
+} as const;
+
+export type ProtocolFeature = keyof typeof features;
+
+export const isSupportedProtocolVersion = (version: string) => {
+	return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+};
+
+// The server answers with the requested version when it supports it, its latest one otherwise.
+export const negotiateProtocolVersion = (requested?: string) => {
+	return requested && isSupportedProtocolVersion(requested) ? requested : LATEST_PROTOCOL_VERSION;
+};
+
+export const supports = (version: string | undefined, feature: ProtocolFeature) => {
+	return (version ?? DEFAULT_PROTOCOL_VERSION) >= features[feature];
+};
+
+const adaptContent = (version: string | undefined, content: ContentBlock[]) => {
+	return content.filter((block) => {
+		if (block.type === 'resource_link') {
+			return supports(version, 'resourceLinks');
+		}
+		if (block.type === 'audio') {
+			return supports(version, 'audio');
+		}
+		return true;
+	});
+};
+
+export const adaptToolResult = (version: string | undefined, result: CallToolResult) => {
+	const { structuredContent, ...rest } = result;
+	return {
+		...(supports(version, 'structuredOutput') && structuredContent ? { structuredContent } : {}),
+		...rest,
+		content: adaptContent(version, result.content)
+	} satisfies CallToolResult;
+};
+
+export const adaptTool = (version: string | undefined, tool: SpecTool) => {
+	const { outputSchema, annotations, title, ...rest } = tool;
+	return {
+		...rest,
+		...(supports(version, 'titles') && title ? { title } : {}),
+		...(supports(version, 'toolAnnotations') && annotations ? { annotations } : {}),
+		...(supports(version, 'structuredOutput') && outputSchema ? { outputSchema } : {})
+	} satisfies SpecTool;
+};
+
+export const adaptPrompt = (version: string | undefined, prompt: SpecPrompt) => {
+	const titles = supports(version, 'titles');
+	const { title, arguments: args, ...rest } = prompt;
+	return {
+		...rest,
+		...(titles && title ? { title } : {}),
+		...(args
+			? {
+					arguments: args.map(({ title, ...argument }) => ({
+						...argument,
+						...(titles && title ? { title } : {})
+					}))
+				}
+			: {})
+	} satisfies SpecPrompt;
+};
+
+/** What the client negotiated during initialization. */
+export type ClientContext = {
+	protocolVersion: string;
+	capabilities: ClientCapabilities;
+	info?: Implementation;
+	supports: (feature: ProtocolFeature) => boolean;
+};
+
+export const clientContext = (session: Session): ClientContext => {
+	const protocolVersion = session.protocolVersion ?? DEFAULT_PROTOCOL_VERSION;
+	return {
+		protocolVersion,
+		capabilities: session.clientCapabilities,
+		info: session.clientInfo,
+		supports: (feature) => supports(protocolVersion, feature)
+	};
+};
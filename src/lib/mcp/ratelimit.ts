@@ -0,0 +1,153 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { MaybePromise } from './types';
+import type { CallToolResult } from './types/spec';
+import type { Session } from './session';
+import type { Principal } from './auth';
+import { mcpError } from './errors';
+
+export type RateLimitContext = { event: RequestEvent; session: Session; principal?: Principal };
+
+export type RateLimit = {
+	/** Calls allowed per window. */
+	limit?: number;
+	/** Length of the window, in seconds. Defaults to a minute. */
+	window?: number;
+	/** Calls allowed to run at the same time. */
+	concurrency?: number;
+	/**
+	 * Who the limits apply to: each session (default), each user when the server is protected,
+	 * each IP address, everyone at once, or any key computed from the request.
+	 */
+	by?: 'session' | 'principal' | 'ip' | 'global' | ((context: RateLimitContext) => string);
+	/**
+	 * How a call over the limits is answered: with a tool result flagged with `isError` telling
+	 * the model when to retry (default), or with a JSON-RPC error.
+	 */
+	respond?: 'result' | 'error';
+};
+
+/** Counters shared by the instances of the server, e.g. in Redis or a Durable Object. */
+export interface CounterStore {
+	/** Adds to a counter, creating it for `ttl` seconds, and resolves with its new value. */
+	increment: (key: string, ttl: number) => MaybePromise<number>;
+	decrement: (key: string) => MaybePromise<number>;
+}
+
+export class InMemoryCounterStore implements CounterStore {
+	private counters = new Map<string, { value: number; expiresAt: number }>();
+
+	increment = (key: string, ttl: number) => {
+		const now = Date.now();
+		const counter = this.counters.get(key);
+		const value = counter && counter.expiresAt > now ? counter.value + 1 : 1;
+		this.counters.set(key, {
+			value,
+			expiresAt: counter && counter.expiresAt > now ? counter.expiresAt : now + ttl * 1000
+		});
+		this.evict(now);
+		return value;
+	};
+
+	decrement = (key: string) => {
+		const counter = this.counters.get(key);
+		if (!counter) {
+			return 0;
+		}
+		counter.value = Math.max(0, counter.value - 1);
+		return counter.value;
+	};
+
+	// Forgets the windows that ended once there are many, so that counters do not pile up.
+	private evict = (now: number) => {
+		if (this.counters.size < 1000) {
+			return;
+		}
+		for (const [key, counter] of this.counters) {
+			if (counter.expiresAt <= now) {
+				this.counters.delete(key);
+			}
+		}
+	};
+}
+
+const DEFAULT_WINDOW = 60;
+// Running calls are counted for at most this long, in case one never releases its slot.
+const CONCURRENCY_TTL = 3600;
+
+const clientAddress = (event: RequestEvent) => {
+	try {
+		return event.getClientAddress();
+	} catch {
+		// Not every adapter knows the address of the client.
+		return event.request.headers.get('X-Forwarded-For')?.split(',')[0].trim() ?? 'unknown';
+	}
+};
+
+const subjectOf = (limit: RateLimit, context: RateLimitContext) => {
+	const { by = 'session' } = limit;
+	if (typeof by === 'function') {
+		return by(context);
+	}
+	switch (by) {
+		case 'principal':
+			return context.principal?.subject ?? context.session.id;
+		case 'ip':
+			return clientAddress(context.event);
+		case 'global':
+			return 'global';
+		default:
+			return context.session.id;
+	}
+};
+
+/** Counts the calls of the tools against their limits and those of the server. */
+export class RateLimiter {
+	constructor(readonly store: CounterStore) {}
+
+	/**
+	 * Takes a slot under a limit. Resolves with a function giving it back once the call ended,
+	 * or with the seconds to wait before retrying when the limit is reached.
+	 */
+	acquire = async (
+		scope: string,
+		limit: RateLimit,
+		context: RateLimitContext
+	): Promise<{ release: () => Promise<void> } | { retryAfter: number }> => {
+		const key = `${scope}:${subjectOf(limit, context)}`;
+
+		if (limit.limit !== undefined) {
+			const window = (limit.window ?? DEFAULT_WINDOW) * 1000;
+			const start = Math.floor(Date.now() / window) * window;
+			const count = await this.store.increment(`rate:${key}:${start}`, window / 1000);
+			if (count > limit.limit) {
+				return { retryAfter: Math.max(1, Math.ceil((start + window - Date.now()) / 1000)) };
+			}
+		}
+
+		if (limit.concurrency !== undefined) {
+			const running = await this.store.increment(`concurrency:${key}`, CONCURRENCY_TTL);
+			const release = async () => {
+				await this.store.decrement(`concurrency:${key}`);
+			};
+			if (running > limit.concurrency) {
+				await release();
+				return { retryAfter: 1 };
+			}
+			return { release };
+		}
+
+		return { release: async () => {} };
+	};
+}
+
+export const rateLimited = (limit: RateLimit, retryAfter: number) => {
+	const message = `Rate limit exceeded, retry in ${retryAfter} second${retryAfter > 1 ? 's' : ''}`;
+	if (limit.respond === 'error') {
+		return mcpError('RATE_LIMITED', message, { retryAfter });
+	}
+	return {
+		content: [{ type: 'text', text: message }],
+		isError: true,
+		_meta: { retryAfter }
+	} satisfies CallToolResult;
+};
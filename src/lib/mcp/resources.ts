@@ -2,22 +2,29 @@ import { type MaybePromise } from './types';
 import { type MimeType, validateMimeType } from './mime';
 import { MCPError, mcpError } from './errors';
 import type { ReadResourceResult, ResourceTemplate, Resource as SpecResource } from './types/spec';
+import type { Session } from './session';
+import type { CompleteFunction } from './completion';
+import type { Logger } from './logging';
+import { type StandardSchemaV1, validateInput } from './types/standardSchema';
+import { UriTemplate, type TemplateParams, type TemplateValues } from './utils/uriTemplate';
+import { listSource, type PageSource } from './utils/pagination';
 
-export type ResourcePayload = {
+export type ResourcePayload<Params = Record<string, string>> = {
 	uri: string;
+	/** The variables of the URI template, as matched in the requested URI. */
+	params: Params;
 	sessionId: string;
-
+	session: Session;
+	log: Logger;
 	error: typeof error;
 };
 
-export type HandleResourceFunction = (
-	payload: ResourcePayload
+export type HandleResourceFunction<Params = any> = (
+	payload: ResourcePayload<Params>
 ) => MaybePromise<string | Blob | ArrayBuffer | File | ReadResourceResult>;
 
-export const toDataUrl = async (
-	data: string | ArrayBuffer | Uint8Array | Blob | File,
-	mimeType: MimeType
-) => {
+// Strings are expected to be base64 already.
+export const toBase64 = async (data: string | ArrayBuffer | Uint8Array | Blob | File) => {
 	if (typeof data === 'string') {
 		return data;
 	}
@@ -31,26 +38,73 @@ export const toDataUrl = async (
 					: new ArrayBuffer(0);
 	const bytes = new Uint8Array(buffer);
 	const binary = bytes.reduce((acc, byte) => acc + String.fromCharCode(byte), '');
-	return `data:${mimeType};base64,${btoa(binary)}`;
+	return btoa(binary);
 };
 
+export const toDataUrl = async (
+	data: string | ArrayBuffer | Uint8Array | Blob | File,
+	mimeType: MimeType
+) => {
+	if (typeof data === 'string') {
+		return data;
+	}
+	return `data:${mimeType};base64,${await toBase64(data)}`;
+};
+
+/** Lists resources from a data source, all at once or one page at a time. */
+export type ListResourcesFunction = (payload: {
+	cursor?: string;
+	limit: number;
+	sessionId: string;
+	session: Session;
+}) => MaybePromise<SpecResource[] | { resources: SpecResource[]; nextCursor?: string }>;
+
 type ResourceConfig<H extends HandleResourceFunction> = {
 	name: string;
 	type?: MimeType;
 	uri?: string;
+	template?: UriTemplate;
+	params?: StandardSchemaV1;
+	subscribable?: boolean;
+	list?: ListResourcesFunction;
+	completions: Record<string, CompleteFunction>;
 	description?: string;
 	handler?: H;
 	meta?: { [key: string]: unknown };
 };
 
-export class Resource<H extends HandleResourceFunction> {
+export class Resource<H extends HandleResourceFunction<Params>, Params = Record<string, string>> {
 	'~config': ResourceConfig<H>;
 	constructor(name: string) {
-		this['~config'] = { name };
+		this['~config'] = { name, completions: {} };
 	}
 
-	'~call' = async (uri: string, sessionId: string): Promise<ReadResourceResult | MCPError> => {
-		const result = await this['~config'].handler?.({ uri, sessionId, error } as ResourcePayload);
+	'~call' = async (
+		uri: string,
+		session: Session,
+		params: Record<string, string>,
+		log: Logger
+	): Promise<ReadResourceResult | MCPError> => {
+		let validatedParams: unknown = params;
+		if (this['~config'].params) {
+			try {
+				validatedParams = await validateInput(this['~config'].params, params);
+			} catch (err) {
+				return mcpError('INVALID_PARAMS', err instanceof Error ? err.message : undefined, {
+					uri,
+					...(err instanceof MCPError ? (err['~data'] as object) : {})
+				});
+			}
+		}
+
+		const result = await this['~config'].handler?.({
+			uri,
+			params: validatedParams,
+			sessionId: session.id,
+			session,
+			log,
+			error
+		} as ResourcePayload<Params>);
 
 		if (typeof result === 'string') {
 			return {
@@ -87,6 +141,24 @@ export class Resource<H extends HandleResourceFunction> {
 		return error('RESOURCE_NOT_FOUND');
 	};
 
+	'~list' = (session: Session): PageSource<SpecResource> => {
+		return async (cursor, limit) => {
+			const result = await this['~config'].list!({
+				cursor,
+				limit,
+				sessionId: session.id,
+				session
+			});
+			const page = Array.isArray(result)
+				? await listSource(result, (resource) => resource.uri)(cursor, limit)
+				: { items: result.resources, nextCursor: result.nextCursor };
+			return {
+				...page,
+				items: page.items.map((resource) => ({ mimeType: this['~config'].type, ...resource }))
+			};
+		};
+	};
+
 	type = (type: MimeType) => {
 		const mime = validateMimeType(type);
 
@@ -97,14 +169,52 @@ export class Resource<H extends HandleResourceFunction> {
 		return this;
 	};
 
-	uri = (uri: string) => {
+	// Either a fixed URI or an RFC 6570 template, whose variables are passed to the handler.
+	uri = <U extends string>(uri: U) => {
 		this['~config'].uri = uri;
+		this['~config'].template = UriTemplate.isTemplate(uri) ? new UriTemplate(uri) : undefined;
+		return this as unknown as Resource<
+			HandleResourceFunction<TemplateParams<U>>,
+			TemplateParams<U>
+		>;
+	};
+
+	// Validates and transforms the template variables before they reach the handler.
+	params = <S extends StandardSchemaV1>(schema: S) => {
+		this['~config'].params = schema;
+		return this as unknown as Resource<
+			HandleResourceFunction<StandardSchemaV1.InferOutput<S>>,
+			StandardSchemaV1.InferOutput<S>
+		>;
+	};
+
+	// Builds the URI of this resource for the given template variables, e.g. for a resource link.
+	expand = (values: Partial<Record<keyof Params, string | number | boolean>>) => {
+		const { template, uri, name } = this['~config'];
+		return template ? template.expand(values as TemplateValues) : uri || name;
+	};
+
+	// Lets clients subscribe to the resource, see `Server.notifyResourceUpdated`.
+	subscribable = (subscribable = true) => {
+		this['~config'].subscribable = subscribable;
+		return this;
+	};
+
+	// Lists the resources behind a template, or a catalog too large to be listed at once.
+	list = (list: ListResourcesFunction) => {
+		this['~config'].list = list;
 		return this;
 	};
 
-	handle = <HH extends HandleResourceFunction>(handler: HH) => {
+	// Suggests values for a variable of the URI template while the user types it.
+	complete = (variable: keyof Params & string, complete: CompleteFunction) => {
+		this['~config'].completions[variable] = complete;
+		return this;
+	};
+
+	handle = <HH extends HandleResourceFunction<Params>>(handler: HH) => {
 		this['~config'].handler = handler as unknown as H;
-		return this as unknown as Resource<HH>;
+		return this as unknown as Resource<HH, Params>;
 	};
 	description = (description: string) => {
 		this['~config'].description = description;
@@ -119,12 +229,44 @@ export class Resource<H extends HandleResourceFunction> {
 
 export const resource = (name: string) => new Resource(name);
 
-const isTemplate = (uri: string) => {
-	const templateRegex = /\{[^{}]*\}/g;
-	return templateRegex.test(uri);
+/**
+ * Finds the resource a URI refers to: the one with this exact URI, otherwise the most specific
+ * template matching it, along with the variables of the template.
+ */
+export const findResource = (resources: Record<string, Resource<any, any>>, uri: string) => {
+	const all = Object.values(resources);
+	const exact = all.find(
+		(resource) => !resource['~config'].template && resource['~config'].uri === uri
+	);
+	if (exact) {
+		return { resource: exact, params: {} };
+	}
+
+	return all
+		.filter((resource) => resource['~config'].template)
+		.sort((a, b) => b['~config'].template!.specificity - a['~config'].template!.specificity)
+		.map((resource) => ({ resource, params: resource['~config'].template!.match(uri) }))
+		.find(({ params }) => params);
 };
 
-export const defineResources = (resources: Record<string, Resource<any>>) => {
+/** Finds a resource by its name, expanding its template with the values, or by its URI. */
+export const resolveResource = (
+	resources: Record<string, Resource<any, any>>,
+	reference: string,
+	values: TemplateValues = {}
+) => {
+	const named = resources[reference];
+	if (named) {
+		const uri = named.expand(values);
+		return { resource: named, uri, params: named['~config'].template?.match(uri) ?? {} };
+	}
+	const found = findResource(resources, reference);
+	return found && { ...found, uri: reference };
+};
+
+const isTemplate = (uri: string) => UriTemplate.isTemplate(uri);
+
+export const defineResources = (resources: Record<string, Resource<any, any>>) => {
 	return Object.entries(resources).reduce((acc, [key, resource]) => {
 		if (!isTemplate(resource['~config'].uri || '')) {
 			acc.push(defineResource(key, resource));
@@ -133,7 +275,7 @@ export const defineResources = (resources: Record<string, Resource<any>>) => {
 	}, [] as SpecResource[]);
 };
 
-export const defineResourceTemplates = (resources: Record<string, Resource<any>>) => {
+export const defineResourceTemplates = (resources: Record<string, Resource<any, any>>) => {
 	return Object.entries(resources).reduce((acc, [key, resource]) => {
 		if (isTemplate(resource['~config'].uri || '')) {
 			acc.push(defineResourceTemplate(key, resource));
@@ -142,7 +284,7 @@ export const defineResourceTemplates = (resources: Record<string, Resource<any>>
 	}, [] as ResourceTemplate[]);
 };
 
-export const defineResource = (name: string, resource: Resource<any>) => {
+export const defineResource = (name: string, resource: Resource<any, any>) => {
 	const { uri, description, type, meta } = resource['~config'];
 	const definition = {
 		name,
@@ -154,7 +296,7 @@ export const defineResource = (name: string, resource: Resource<any>) => {
 	return definition;
 };
 
-export const defineResourceTemplate = (name: string, resource: Resource<any>) => {
+export const defineResourceTemplate = (name: string, resource: Resource<any, any>) => {
 	const { uri, description, type, meta } = resource['~config'];
 	const definition = {
 		name,
@@ -167,7 +309,7 @@ export const defineResourceTemplate = (name: string, resource: Resource<any>) =>
 };
 
 const error = (
-	code: 'RESOURCE_NOT_FOUND' | 'INTERNAL_ERROR',
+	code: 'RESOURCE_NOT_FOUND' | 'INTERNAL_ERROR' | 'INVALID_PARAMS',
 	message?: string,
 	data?: {
 		uri: string;
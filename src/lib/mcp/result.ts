@@ -0,0 +1,247 @@
+import type { MaybePromise } from './types';
+import type {
+	Annotations,
+	CallToolResult,
+	ContentBlock,
+	GetPromptResult,
+	PromptMessage,
+	ResourceLink
+} from './types/spec';
+import type { AudioMimeType, ImageMimeType, MimeType } from './mime';
+import { resolveResource, toBase64, type Resource } from './resources';
+import type { TemplateValues } from './utils/uriTemplate';
+import type { Session } from './session';
+import type { Logger } from './logging';
+import { MCPError, mcpError } from './errors';
+
+type Data = string | ArrayBuffer | Uint8Array | Blob | File;
+
+type EmbeddedContents = { uri: string; mimeType?: MimeType } & ({ text: string } | { blob: Data });
+
+type LinkedResource = {
+	uri: string;
+	name: string;
+	title?: string;
+	description?: string;
+	mimeType?: MimeType;
+};
+
+const media = async (
+	type: 'image' | 'audio',
+	data: Data,
+	mimeType: MimeType,
+	annotations?: Annotations
+) => {
+	return {
+		type,
+		data: await toBase64(data),
+		mimeType,
+		...(annotations ? { annotations } : {})
+	} as ContentBlock;
+};
+
+const embedded = async (resource: EmbeddedContents, annotations?: Annotations) => {
+	const { uri, mimeType } = resource;
+	const contents =
+		'text' in resource ? { text: resource.text } : { blob: await toBase64(resource.blob) };
+	return {
+		type: 'resource' as const,
+		resource: { uri, ...(mimeType ? { mimeType } : {}), ...contents },
+		...(annotations ? { annotations } : {})
+	};
+};
+
+/**
+ * Builds a tool result made of several content items, optionally with structured content
+ * and metadata. Every item can carry annotations telling the client who it is for and how
+ * important it is.
+ */
+export class ToolResult<Structured = never> {
+	private content: MaybePromise<ContentBlock>[] = [];
+	private structuredContent?: Structured;
+	private _meta?: { [key: string]: unknown };
+	private isError = false;
+
+	private add = (item: MaybePromise<ContentBlock>) => {
+		this.content.push(item);
+		return this;
+	};
+
+	text = (text: string, annotations?: Annotations) => {
+		return this.add({ type: 'text', text, ...(annotations ? { annotations } : {}) });
+	};
+
+	image = (data: Data, mimeType: ImageMimeType, annotations?: Annotations) => {
+		return this.add(media('image', data, mimeType, annotations));
+	};
+
+	audio = (data: Data, mimeType: AudioMimeType, annotations?: Annotations) => {
+		return this.add(media('audio', data, mimeType, annotations));
+	};
+
+	// Embeds the contents of a resource in the result, as text or as a binary blob.
+	embed = (resource: EmbeddedContents, annotations?: Annotations) => {
+		return this.add(embedded(resource, annotations));
+	};
+
+	// Points to a resource the client can read or subscribe to, without including it.
+	link = (resource: LinkedResource, annotations?: Annotations) => {
+		return this.add({
+			type: 'resource_link',
+			...resource,
+			...(annotations ? { annotations } : {})
+		});
+	};
+
+	structured = <S extends { [key: string]: unknown }>(content: S) => {
+		this.structuredContent = content as unknown as Structured;
+		return this as unknown as ToolResult<S>;
+	};
+
+	meta = (meta: { [key: string]: unknown }) => {
+		this._meta = { ...this._meta, ...meta };
+		return this;
+	};
+
+	// Marks the result as a failure the model should see, rather than a protocol error.
+	error = () => {
+		this.isError = true;
+		return this;
+	};
+
+	'~build' = async (): Promise<CallToolResult> => {
+		return {
+			content: await Promise.all(this.content),
+			...(this.structuredContent
+				? { structuredContent: this.structuredContent as { [key: string]: unknown } }
+				: {}),
+			...(this._meta ? { _meta: this._meta } : {}),
+			...(this.isError ? { isError: true } : {})
+		};
+	};
+}
+
+export const toolResult = () => new ToolResult();
+
+type PromptContext = {
+	resources: Record<string, Resource<any, any>>;
+	session: Session;
+	log: Logger;
+};
+
+type PromptContent = (context: PromptContext) => MaybePromise<ContentBlock | ContentBlock[]>;
+
+/**
+ * Builds the conversation a prompt expands to. Every item is a message of its own, sent with
+ * the role last chosen with `user()` or `assistant()`. Resources of the server can be embedded
+ * or linked by name, or by URI.
+ */
+export class PromptResult {
+	private messages: { role: PromptMessage['role']; content: PromptContent }[] = [];
+	private currentRole: PromptMessage['role'] = 'user';
+	private _description?: string;
+
+	private add = (content: PromptContent) => {
+		this.messages.push({ role: this.currentRole, content });
+		return this;
+	};
+
+	description = (description: string) => {
+		this._description = description;
+		return this;
+	};
+
+	user = () => {
+		this.currentRole = 'user';
+		return this;
+	};
+
+	assistant = () => {
+		this.currentRole = 'assistant';
+		return this;
+	};
+
+	text = (text: string, annotations?: Annotations) => {
+		return this.add(() => ({ type: 'text', text, ...(annotations ? { annotations } : {}) }));
+	};
+
+	image = (data: Data, mimeType: ImageMimeType, annotations?: Annotations) => {
+		return this.add(() => media('image', data, mimeType, annotations));
+	};
+
+	audio = (data: Data, mimeType: AudioMimeType, annotations?: Annotations) => {
+		return this.add(() => media('audio', data, mimeType, annotations));
+	};
+
+	/**
+	 * Embeds a resource: one of the server, read when the prompt is requested, by its name (with
+	 * the variables of its template) or its URI, or contents given inline.
+	 */
+	embed = (
+		resource: string | EmbeddedContents,
+		values?: TemplateValues,
+		annotations?: Annotations
+	) => {
+		if (typeof resource !== 'string') {
+			return this.add(() => embedded(resource, annotations));
+		}
+		return this.add(async ({ resources, session, log }) => {
+			const found = resolveResource(resources, resource, values);
+			if (!found) {
+				throw mcpError('RESOURCE_NOT_FOUND', undefined, { uri: resource });
+			}
+			const result = await found.resource['~call'](found.uri, session, found.params, log);
+			if (result instanceof MCPError) {
+				throw result;
+			}
+			return result.contents.map((contents) => ({
+				type: 'resource' as const,
+				resource: contents,
+				...(annotations ? { annotations } : {})
+			}));
+		});
+	};
+
+	// Links to a resource of the server by its name or URI, or to any resource.
+	link = (
+		resource: string | LinkedResource,
+		values?: TemplateValues,
+		annotations?: Annotations
+	) => {
+		return this.add(({ resources }) => {
+			if (typeof resource !== 'string') {
+				return { type: 'resource_link', ...resource, ...(annotations ? { annotations } : {}) };
+			}
+			const found = resolveResource(resources, resource, values);
+			if (!found) {
+				throw mcpError('RESOURCE_NOT_FOUND', undefined, { uri: resource });
+			}
+			// Named as in `resources/list`.
+			const name = Object.keys(resources).find((key) => resources[key] === found.resource);
+			const { description, type } = found.resource['~config'];
+			return {
+				type: 'resource_link',
+				uri: found.uri,
+				name,
+				...(description ? { description } : {}),
+				...(type ? { mimeType: type } : {}),
+				...(annotations ? { annotations } : {})
+			} satisfies ResourceLink;
+		});
+	};
+
+	'~build' = async (context: PromptContext): Promise<GetPromptResult> => {
+		const messages = await Promise.all(
+			this.messages.map(async ({ role, content }) => {
+				const blocks = await content(context);
+				return (Array.isArray(blocks) ? blocks : [blocks]).map((content) => ({ role, content }));
+			})
+		);
+		return {
+			...(this._description ? { description: this._description } : {}),
+			messages: messages.flat()
+		};
+	};
+}
+
+export const promptResult = () => new PromptResult();
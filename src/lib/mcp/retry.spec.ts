@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { withRetry } from './retry';
+
+const failing = (until: number) => {
+	let attempts = 0;
+	return vi.fn(async () => {
+		if (++attempts < until) {
+			throw new Error(`Attempt ${attempts} failed`);
+		}
+		return 'done';
+	});
+};
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('withRetry', () => {
+	it('doubles the wait between attempts up to the longest one', async () => {
+		vi.useFakeTimers();
+		const fn = failing(4);
+		const done = withRetry(
+			fn,
+			{ attempts: 4, backoff: 100, maxBackoff: 150 },
+			new AbortController().signal
+		);
+
+		await vi.advanceTimersByTimeAsync(99);
+		expect(fn).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(fn).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(150);
+		expect(fn).toHaveBeenCalledTimes(3);
+		await vi.advanceTimersByTimeAsync(150);
+		expect(await done).toBe('done');
+		expect(fn).toHaveBeenCalledTimes(4);
+	});
+
+	it('gives up with the last error once the attempts are spent', async () => {
+		const fn = failing(Infinity);
+
+		await expect(
+			withRetry(fn, { attempts: 3, backoff: 1 }, new AbortController().signal)
+		).rejects.toThrow('Attempt 3 failed');
+		expect(fn).toHaveBeenCalledTimes(3);
+	});
+
+	it('only retries the errors it is told to', async () => {
+		const fn = failing(Infinity);
+		const retryOn = (err: unknown) => (err as Error).message !== 'Attempt 2 failed';
+
+		await expect(
+			withRetry(fn, { attempts: 5, backoff: 1, retryOn }, new AbortController().signal)
+		).rejects.toThrow('Attempt 2 failed');
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	it('stops waiting and gives up when the signal aborts', async () => {
+		vi.useFakeTimers();
+		const controller = new AbortController();
+		const fn = failing(Infinity);
+		const done = withRetry(fn, { attempts: 5, backoff: 1_000 }, controller.signal);
+		const rejected = expect(done).rejects.toThrow('Attempt 1 failed');
+
+		await vi.advanceTimersByTimeAsync(10);
+		controller.abort();
+		await rejected;
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,53 @@
+export type RetryOptions = {
+	/** Attempts in total, the first one included. */
+	attempts: number;
+	/** Milliseconds to wait before the first retry, doubled after each one. Defaults to 100. */
+	backoff?: number;
+	/** Longest wait between two attempts, in milliseconds. Defaults to 5 seconds. */
+	maxBackoff?: number;
+	/**
+	 * Whether a thrown error is worth another attempt. Defaults to every error but `ToolError`s,
+	 * which tools throw on purpose and are never retried.
+	 */
+	retryOn?: (error: unknown) => boolean;
+};
+
+const DEFAULT_BACKOFF = 100;
+const DEFAULT_MAX_BACKOFF = 5_000;
+
+const sleep = (ms: number, signal: AbortSignal) => {
+	return new Promise<void>((resolve) => {
+		const done = () => {
+			clearTimeout(timer);
+			signal.removeEventListener('abort', done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal.addEventListener('abort', done, { once: true });
+	});
+};
+
+/**
+ * Runs a function until it resolves, waiting longer and longer between the attempts. Gives up
+ * with the last error once the attempts are spent, the error is not retryable, or the signal
+ * aborted.
+ */
+export const withRetry = async <T>(
+	fn: () => Promise<T>,
+	{ attempts, backoff = DEFAULT_BACKOFF, maxBackoff = DEFAULT_MAX_BACKOFF, retryOn }: RetryOptions,
+	signal: AbortSignal
+): Promise<T> => {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (err) {
+			if (attempt >= attempts || signal.aborted || (retryOn && !retryOn(err))) {
+				throw err;
+			}
+			await sleep(Math.min(backoff * 2 ** (attempt - 1), maxBackoff), signal);
+			if (signal.aborted) {
+				throw err;
+			}
+		}
+	}
+};
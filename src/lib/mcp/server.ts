@@ -0,0 +1,265 @@
+import type { MCPServer } from './types';
+import { Transport } from './transport';
+import { InMemorySessionStore, type SessionStore } from './session';
+import type { JSONRPCError, JSONRPCResponse, RequestId } from './types/spec';
+import type { Tool } from './tools';
+import type { Prompt } from './prompts';
+import type { Resource } from './resources';
+import type { Widget } from './widget';
+import { InMemoryCacheStore, ResultCache } from './cache';
+import { InMemoryCounterStore, RateLimiter } from './ratelimit';
+
+/**
+ * The requests being handled, so that a cancellation sent by the client in another HTTP request
+ * can reach them. Like the in-memory stores, it only sees the requests of its own process.
+ */
+export class InFlightRequests {
+	private controllers = new Map<string, AbortController>();
+
+	private key = (sessionId: string, id: RequestId) => `${sessionId}:${JSON.stringify(id)}`;
+
+	start = (sessionId: string, id: RequestId) => {
+		const controller = new AbortController();
+		this.controllers.set(this.key(sessionId, id), controller);
+		return controller;
+	};
+
+	finish = (sessionId: string, id: RequestId) => {
+		this.controllers.delete(this.key(sessionId, id));
+	};
+
+	cancel = (sessionId: string, id: RequestId, reason?: string) => {
+		this.controllers.get(this.key(sessionId, id))?.abort(reason);
+	};
+}
+
+/**
+ * The requests the server sent to clients, waiting for the response they post back.
+ * Like the in-memory stores, it only sees the requests of its own process.
+ */
+export class PendingRequests {
+	private requests = new Map<string, (message: JSONRPCResponse | JSONRPCError) => void>();
+	private counter = 0;
+
+	private key = (sessionId: string, id: RequestId) => `${sessionId}:${JSON.stringify(id)}`;
+
+	create = (sessionId: string) => {
+		const id = `server-${++this.counter}`;
+		const response = new Promise<JSONRPCResponse | JSONRPCError>((resolve) => {
+			this.requests.set(this.key(sessionId, id), resolve);
+		});
+		return { id, response };
+	};
+
+	// Returns whether the response was awaited.
+	resolve = (sessionId: string, message: JSONRPCResponse | JSONRPCError) => {
+		const key = this.key(sessionId, message.id);
+		const resolve = this.requests.get(key);
+		this.requests.delete(key);
+		resolve?.(message);
+		return !!resolve;
+	};
+
+	forget = (sessionId: string, id: RequestId) => {
+		this.requests.delete(this.key(sessionId, id));
+	};
+}
+
+/** The resources each session subscribed to. */
+export class Subscriptions {
+	private sessions = new Map<string, Set<string>>();
+
+	subscribe = (sessionId: string, uri: string) => {
+		const sessions = this.sessions.get(uri) ?? new Set();
+		sessions.add(sessionId);
+		this.sessions.set(uri, sessions);
+	};
+
+	unsubscribe = (sessionId: string, uri: string) => {
+		this.sessions.get(uri)?.delete(sessionId);
+		if (!this.sessions.get(uri)?.size) {
+			this.sessions.delete(uri);
+		}
+	};
+
+	subscribers = (uri: string) => {
+		return [...(this.sessions.get(uri) ?? [])];
+	};
+
+	// Forgets every subscription of a session, once it ended.
+	clear = (sessionId: string) => {
+		for (const uri of [...this.sessions.keys()]) {
+			this.unsubscribe(sessionId, uri);
+		}
+	};
+}
+
+type SessionOverrides<T> = {
+	added: Map<string, T>;
+	removed: Set<string>;
+	enabled: Set<string>;
+	disabled: Set<string>;
+};
+
+/**
+ * The tools, prompts, resources or widgets of a running server. They can be added, removed,
+ * enabled and disabled at runtime, for every session or for a single one, and the sessions
+ * concerned are told their list changed.
+ */
+export class Registry<T> {
+	private items: Map<string, T>;
+	private disabled = new Set<string>();
+	private sessions = new Map<string, SessionOverrides<T>>();
+
+	constructor(
+		items: Record<string, T> = {},
+		private onChange: (sessionId?: string) => Promise<void>
+	) {
+		this.items = new Map(Object.entries(items));
+	}
+
+	private overrides = (sessionId: string) => {
+		let overrides = this.sessions.get(sessionId);
+		if (!overrides) {
+			overrides = { added: new Map(), removed: new Set(), enabled: new Set(), disabled: new Set() };
+			this.sessions.set(sessionId, overrides);
+		}
+		return overrides;
+	};
+
+	add = async (name: string, item: T, sessionId?: string) => {
+		if (sessionId) {
+			this.overrides(sessionId).added.set(name, item);
+			this.overrides(sessionId).removed.delete(name);
+		} else {
+			this.items.set(name, item);
+		}
+		await this.onChange(sessionId);
+	};
+
+	remove = async (name: string, sessionId?: string) => {
+		if (sessionId) {
+			this.overrides(sessionId).added.delete(name);
+			this.overrides(sessionId).removed.add(name);
+		} else {
+			this.items.delete(name);
+		}
+		await this.onChange(sessionId);
+	};
+
+	enable = async (name: string, sessionId?: string) => {
+		if (sessionId) {
+			this.overrides(sessionId).disabled.delete(name);
+			this.overrides(sessionId).enabled.add(name);
+		} else {
+			this.disabled.delete(name);
+		}
+		await this.onChange(sessionId);
+	};
+
+	disable = async (name: string, sessionId?: string) => {
+		if (sessionId) {
+			this.overrides(sessionId).enabled.delete(name);
+			this.overrides(sessionId).disabled.add(name);
+		} else {
+			this.disabled.add(name);
+		}
+		await this.onChange(sessionId);
+	};
+
+	/** What a session sees: the shared items with its own changes applied. */
+	list = (sessionId?: string | null) => {
+		const overrides = sessionId ? this.sessions.get(sessionId) : undefined;
+		const items: Record<string, T> = {};
+		for (const [name, item] of [...this.items, ...(overrides?.added ?? [])]) {
+			const removed = overrides?.removed.has(name) && !overrides.added.has(name);
+			const disabled =
+				overrides?.disabled.has(name) || (this.disabled.has(name) && !overrides?.enabled.has(name));
+			if (!removed && !disabled) {
+				items[name] = item;
+			}
+		}
+		return items;
+	};
+
+	// Forgets the changes made for a session, once it ended.
+	clear = (sessionId: string) => {
+		this.sessions.delete(sessionId);
+	};
+}
+
+/**
+ * A running MCP server: its configuration along with the state shared by its requests.
+ * Create it with `mcpServer` when the app needs to reach connected clients, e.g. to tell them
+ * a resource changed, and give it to `handleMCP`.
+ */
+export class Server {
+	readonly transport: Transport;
+	readonly sessionStore: SessionStore;
+	readonly inFlight = new InFlightRequests();
+	readonly pending = new PendingRequests();
+	readonly subscriptions = new Subscriptions();
+	readonly cache: ResultCache;
+	readonly rateLimiter: RateLimiter;
+	readonly tools: Registry<Tool<any, any, any, any>>;
+	readonly prompts: Registry<Prompt<any, any>>;
+	readonly resources: Registry<Resource<any, any>>;
+	readonly widgets: Registry<Widget>;
+
+	constructor(public readonly config: MCPServer) {
+		this.transport = new Transport(config.eventStore, config.reconnectTimeout);
+		this.sessionStore = config.sessionStore ?? new InMemorySessionStore();
+		this.sessionStore.onExpire?.(this.endSession);
+		this.cache = new ResultCache(config.cache?.store ?? new InMemoryCacheStore());
+		this.rateLimiter = new RateLimiter(config.counterStore ?? new InMemoryCounterStore());
+		this.tools = new Registry(config.tools, this.listChanged('tools'));
+		this.prompts = new Registry(config.prompts, this.listChanged('prompts'));
+		this.resources = new Registry(config.resources, this.listChanged('resources'));
+		// Widgets are listed as resources.
+		this.widgets = new Registry(config.widgets, this.listChanged('resources'));
+	}
+
+	private listChanged = (list: 'tools' | 'prompts' | 'resources') => async (sessionId?: string) => {
+		const message = { jsonrpc: '2.0' as const, method: `notifications/${list}/list_changed` };
+		if (sessionId) {
+			await this.transport.notify(sessionId, message);
+		} else {
+			await this.transport.broadcast(message);
+		}
+	};
+
+	/** The configuration as a session sees it, with the tools, prompts and resources it has. */
+	configFor = (sessionId?: string | null): MCPServer => {
+		return {
+			...this.config,
+			tools: this.tools.list(sessionId),
+			prompts: this.prompts.list(sessionId),
+			resources: this.resources.list(sessionId),
+			widgets: this.widgets.list(sessionId)
+		};
+	};
+
+	// Forgets everything about a session, once it ended.
+	endSession = (sessionId: string) => {
+		this.transport.close(sessionId);
+		this.subscriptions.clear(sessionId);
+		for (const registry of [this.tools, this.prompts, this.resources, this.widgets]) {
+			registry.clear(sessionId);
+		}
+	};
+
+	/** Tells the sessions subscribed to a resource that it changed, so they can read it again. */
+	notifyResourceUpdated = async (uri: string) => {
+		await Promise.all(
+			this.subscriptions.subscribers(uri).map((sessionId) =>
+				this.transport.notify(sessionId, {
+					jsonrpc: '2.0',
+					method: 'notifications/resources/updated',
+					params: { uri }
+				})
+			)
+		);
+	};
+}
+
+export const mcpServer = (config: MCPServer) => new Server(config);
@@ -0,0 +1,173 @@
+import type { MaybePromise } from './types';
+import type { ClientCapabilities, Implementation, LoggingLevel } from './types/spec';
+
+export type SessionData = {
+	id: string;
+	protocolVersion?: string;
+	clientInfo?: Implementation;
+	clientCapabilities: ClientCapabilities;
+	/** The authenticated user who started the session, if any. */
+	subject?: string;
+	/** The minimum level of the logs the client wants to receive. */
+	logLevel?: LoggingLevel;
+	data: Record<string, unknown>;
+	createdAt: number;
+};
+
+/**
+ * Persists MCP sessions between requests.
+ * The default store keeps them in memory, which only works when every request of a session
+ * reaches the same process: use a shared store (e.g. `KVSessionStore`) on serverless platforms.
+ */
+export interface SessionStore {
+	get: (id: string) => MaybePromise<SessionData | undefined>;
+	set: (id: string, session: SessionData) => MaybePromise<void>;
+	delete: (id: string) => MaybePromise<void>;
+	/**
+	 * Registers a function called with the id of every session the store expires, for stores
+	 * that can tell, so that the server forgets what it kept for them.
+	 */
+	onExpire?: (listener: (id: string) => void) => void;
+}
+
+const DEFAULT_SESSION_TTL = 3600;
+
+export class InMemorySessionStore implements SessionStore {
+	private sessions = new Map<string, { session: SessionData; expiresAt: number }>();
+	private listeners = new Set<(id: string) => void>();
+	private sweptAt = Date.now();
+
+	constructor(
+		private options: {
+			/** Seconds before an untouched session expires. Defaults to an hour. */
+			ttl?: number;
+		} = {}
+	) {}
+
+	private get ttl() {
+		return (this.options.ttl ?? DEFAULT_SESSION_TTL) * 1000;
+	}
+
+	get = (id: string) => {
+		this.sweep();
+		const entry = this.sessions.get(id);
+		if (!entry) {
+			return undefined;
+		}
+		if (entry.expiresAt <= Date.now()) {
+			this.expire(id);
+			return undefined;
+		}
+		entry.expiresAt = Date.now() + this.ttl;
+		return structuredClone(entry.session);
+	};
+
+	set = (id: string, session: SessionData) => {
+		this.sweep();
+		this.sessions.set(id, { session: structuredClone(session), expiresAt: Date.now() + this.ttl });
+	};
+
+	delete = (id: string) => {
+		this.sessions.delete(id);
+	};
+
+	onExpire = (listener: (id: string) => void) => {
+		this.listeners.add(listener);
+	};
+
+	// Expires the sessions left untouched, at most once per TTL, so that it stays cheap.
+	private sweep = () => {
+		const now = Date.now();
+		if (now - this.sweptAt < this.ttl) {
+			return;
+		}
+		this.sweptAt = now;
+		for (const [id, { expiresAt }] of this.sessions) {
+			if (expiresAt <= now) {
+				this.expire(id);
+			}
+		}
+	};
+
+	private expire = (id: string) => {
+		this.sessions.delete(id);
+		this.listeners.forEach((listener) => listener(id));
+	};
+}
+
+export class Session {
+	constructor(
+		private state: SessionData,
+		private store: SessionStore
+	) {}
+
+	static create = (store: SessionStore) => {
+		return new Session(
+			{ id: crypto.randomUUID(), clientCapabilities: {}, data: {}, createdAt: Date.now() },
+			store
+		);
+	};
+
+	static load = async (store: SessionStore, id: string) => {
+		const state = await store.get(id);
+		return state ? new Session(state, store) : undefined;
+	};
+
+	get id() {
+		return this.state.id;
+	}
+
+	get protocolVersion() {
+		return this.state.protocolVersion;
+	}
+
+	get clientInfo() {
+		return this.state.clientInfo;
+	}
+
+	get clientCapabilities() {
+		return this.state.clientCapabilities;
+	}
+
+	get subject() {
+		return this.state.subject;
+	}
+
+	get logLevel() {
+		return this.state.logLevel;
+	}
+
+	get = <T = unknown>(key: string) => {
+		return this.state.data[key] as T | undefined;
+	};
+
+	set = async (key: string, value: unknown) => {
+		this.state.data[key] = value;
+		await this.save();
+	};
+
+	delete = async (key: string) => {
+		delete this.state.data[key];
+		await this.save();
+	};
+
+	'~initialize' = async (
+		init: Pick<SessionData, 'protocolVersion' | 'clientInfo' | 'clientCapabilities' | 'subject'>
+	) => {
+		Object.assign(this.state, init);
+		await this.save();
+	};
+
+	'~setLogLevel' = async (level: LoggingLevel) => {
+		this.state.logLevel = level;
+		await this.save();
+	};
+
+	'~terminate' = async () => {
+		await this.store.delete(this.id);
+	};
+
+	private save = async () => {
+		await this.store.set(this.id, this.state);
+	};
+}
@@ -1,35 +1,130 @@
 import type { MaybePromise } from './types';
 import type { StandardSchemaV1 } from './types/standardSchema';
 import { validateInput } from './types/standardSchema';
-import { toJsonSchema } from './utils/toJsonSchema';
+import { toObjectJsonSchema } from './utils/toJsonSchema';
 import { safeStringify } from './utils/utils';
 import type { Tool as SpecTool, ToolAnnotations, CallToolResult } from './types/spec';
 import type { AudioMimeType, ImageMimeType, MimeType } from './mime';
 import { toDataUrl } from './resources';
+import { ToolResult, toolResult } from './result';
 import type { RequestEvent } from '@sveltejs/kit';
 import type { Widget } from './widget';
+import type { Session } from './session';
+import type { ClientContext } from './protocol';
+import type { Principal } from './auth';
+import type { Logger } from './logging';
+import type { MethodContext } from './handler';
+import type { CacheOptions } from './cache';
+import type { RateLimit } from './ratelimit';
+import { withRetry, type RetryOptions } from './retry';
 
-export type ToolPayload<Schema extends StandardSchemaV1 | undefined> = {
-	input: Schema extends StandardSchemaV1 ? StandardSchemaV1.InferOutput<Schema> : never;
+export type ToolContext = {
 	event: RequestEvent;
+	session: Session;
+	client: ClientContext;
+	/** Who is calling, when the server is protected with OAuth. */
+	principal?: Principal;
+	/** Aborted when the client cancels the call or disconnects, or when the call times out. */
+	signal: AbortSignal;
+	/** Reports the progress of a long-running call, when the client asked for it. */
+	progress: (progress: number, total?: number, message?: string) => Promise<void>;
+	/** Sends logs to the client, at or above the level it asked for. */
+	log: Logger;
+	/** Asks the client's model for a completion, when the client supports sampling. */
+	sample: MethodContext['sample'];
+	/** Asks the user for structured input, when the client supports elicitation. */
+	elicit: MethodContext['elicit'];
+};
+
+export type ToolPayload<Schema extends StandardSchemaV1 | undefined> = ToolContext & {
+	input: Schema extends StandardSchemaV1 ? StandardSchemaV1.InferOutput<Schema> : never;
 	sessionId: string;
 	error: typeof error;
 	blob: typeof BlobResult.blob;
 	resource: typeof ResourceResult.resource;
+	result: typeof toolResult;
+};
+
+export type HandleToolFunction<
+	Schema extends StandardSchemaV1 | undefined,
+	Context extends object = object,
+	Output = any
+> = (
+	payload: ToolPayload<Schema> & Context
+) => MaybePromise<Output | ToolError | ToolResult<Output>>;
+
+export type OutputOptions<Output = any> = {
+	/**
+	 * What to do when the handler returns something the output schema rejects:
+	 * fail the call (default), warn and send it anyway, or leave `structuredContent` out.
+	 */
+	validation?: 'throw' | 'warn' | 'strip';
+	/** Text sent in `content` along with the structured output. Defaults to its JSON. */
+	text?: (output: Output) => string;
+};
+
+export type InputOptions = {
+	/**
+	 * How invalid arguments are reported: as a JSON-RPC error (default), or as a tool result
+	 * flagged with `isError`, which the model sees and can correct.
+	 */
+	errors?: 'error' | 'result';
+};
+
+/** How a call runs, as resolved from the options of the tool and the server. */
+export type CallOptions = {
+	/** Milliseconds after which the call gives up. */
+	timeout?: number;
+	retry?: RetryOptions;
+	/** Answers the handler step from a cache, running it only when needed. */
+	cache?: (compute: () => Promise<CallToolResult>) => Promise<CallToolResult>;
 };
 
-export type HandleToolFunction<Schema extends StandardSchemaV1 | undefined> = (
-	payload: ToolPayload<Schema>
-) => MaybePromise<any>;
+declare const addedContext: unique symbol;
+
+/** A tool result that remembers the context a middleware added for the next steps. */
+export type MiddlewareResult<Added extends object = object> = CallToolResult & {
+	[addedContext]?: Added;
+};
+
+/**
+ * Runs before the handler of a tool. It can inspect the payload, short-circuit by returning
+ * (or throwing) a `ToolError`, and call `next` to continue, optionally with some context to
+ * add to the payload of the next middlewares and the handler. `next` resolves with the
+ * result of the tool, which can be returned as is or wrapped.
+ */
+export type ToolMiddleware<
+	Schema extends StandardSchemaV1 | undefined = any,
+	Context extends object = object,
+	Added extends object = object
+> = (
+	payload: ToolPayload<Schema> &
+		Context & {
+			next: <C extends object = object>(context?: C) => Promise<MiddlewareResult<C>>;
+		}
+) => MaybePromise<MiddlewareResult<Added> | ToolError>;
+
+/** Defines a middleware outside of a tool, to share it between tools or with the server. */
+export const middleware = <Added extends object = object, Context extends object = object>(
+	middleware: ToolMiddleware<any, Context, Added>
+) => middleware;
 
 type ToolConfig<
 	Schema extends StandardSchemaV1 | undefined = StandardSchemaV1 | undefined,
-	H extends HandleToolFunction<Schema> = any
+	H extends HandleToolFunction<Schema, any> = any
 > = {
 	schema?: Schema;
+	inputOptions?: InputOptions;
 	description: string;
 	output?: StandardSchemaV1;
+	outputOptions?: OutputOptions;
 	handler?: H;
+	middleware: ToolMiddleware<any, any, any>[];
+	scopes?: string[];
+	cache?: CacheOptions | false;
+	rateLimit?: RateLimit;
+	timeout?: number | false;
+	retry?: RetryOptions | false;
 	meta?: { [key: string]: unknown };
 	title?: string;
 	annotations?: ToolAnnotations;
@@ -38,50 +133,115 @@ type ToolConfig<
 
 export class Tool<
 	Schema extends StandardSchemaV1 | undefined = StandardSchemaV1 | undefined,
-	H extends HandleToolFunction<Schema> = any
+	H extends HandleToolFunction<Schema, Context, Output> = any,
+	Context extends object = object,
+	Output = any
 > {
 	'~config': ToolConfig<Schema, H>;
 	constructor(description: string) {
-		this['~config'] = { description };
+		this['~config'] = { description, middleware: [] };
 	}
 
 	'~call' = async (
 		input: Schema extends StandardSchemaV1 ? StandardSchemaV1.InferInput<Schema> : undefined,
-		event: RequestEvent,
-		sessionId?: string
+		context: ToolContext,
+		middleware: ToolMiddleware<any, any, any>[] = [],
+		{ timeout, retry, cache }: CallOptions = {}
 	): Promise<CallToolResult> => {
+		const deadline = timeout ? AbortSignal.timeout(timeout) : undefined;
+		const signal = deadline ? AbortSignal.any([context.signal, deadline]) : context.signal;
+		// Handlers that ignore the signal are not waited for past the deadline.
+		const timedOut = new Promise<never>((_, reject) => {
+			deadline?.addEventListener(
+				'abort',
+				() => reject(new ToolError(`Tool timed out after ${timeout}ms`)),
+				{ once: true }
+			);
+		});
+
+		const handle = (payload: ToolPayload<Schema>) => {
+			const attempt = async () =>
+				this['~config'].handler?.(payload as ToolPayload<Schema> & Context);
+			if (!retry) {
+				return attempt();
+			}
+			return withRetry(
+				attempt,
+				{
+					...retry,
+					retryOn: (err) => !(err instanceof ToolError) && (retry.retryOn?.(err) ?? true)
+				},
+				signal
+			);
+		};
+
+		// Server-wide middlewares wrap the ones of the tool, which wrap the handler.
+		const chain = [...middleware, ...this['~config'].middleware];
+		const run = async (index: number, payload: ToolPayload<Schema>): Promise<CallToolResult> => {
+			if (index === chain.length) {
+				const compute = async () => this['~result'](await handle(payload));
+				return cache ? cache(compute) : compute();
+			}
+			const result = await chain[index]({
+				...payload,
+				next: (added?: object) => run(index + 1, { ...payload, ...added })
+			});
+			return result instanceof ToolError ? result.result : result;
+		};
+
 		try {
-			const result = await this['~config'].handler?.({
+			const result = run(0, {
+				...context,
+				signal,
 				input,
-				sessionId,
+				sessionId: context.session.id,
 				error,
-				event,
 				blob: BlobResult.blob,
-				resource: ResourceResult.resource
+				resource: ResourceResult.resource,
+				result: toolResult
 			} as ToolPayload<Schema>);
-
-			if (result instanceof ToolError) {
-				return result.result;
+			return await Promise.race([result, timedOut]);
+		} catch (err) {
+			if (err instanceof ToolError) {
+				return err.result;
 			}
+			return new ToolError(err instanceof Error ? err.message || 'Unknown error' : 'Unknown error')
+				.result;
+		}
+	};
 
-			if (result instanceof BlobResult) {
-				return await result.result;
-			}
+	'~result' = async (result: unknown): Promise<CallToolResult> => {
+		if (result instanceof ToolError) {
+			return result.result;
+		}
 
-			// if (result instanceof Widget) {
-			// 	return result;
-			// }
+		if (result instanceof BlobResult) {
+			return await result.result;
+		}
 
-			if (typeof result === 'string') {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: result
-						}
-					]
-				};
-			}
+		if (result instanceof ResourceResult) {
+			return result.result;
+		}
+
+		if (result instanceof ToolResult) {
+			const built = await result['~build']();
+			return this['~config'].output && !built.isError
+				? this['~structure'](built.structuredContent, built)
+				: built;
+		}
+
+		if (typeof result === 'string') {
+			return {
+				content: [
+					{
+						type: 'text' as const,
+						text: result
+					}
+				]
+			};
+		}
+
+		if (!this['~config'].output) {
 			// May be an object
 			return {
 				content: [
@@ -89,15 +249,48 @@ export class Tool<
 						type: 'text' as const,
 						text: safeStringify(result)
 					}
-				],
-				...(this['~config'].output ? { structuredContent: result } : {})
+				]
 			};
-		} catch (err) {
-			if (err instanceof ToolError) {
-				return err.result;
-			}
-			return new ToolError(err instanceof Error ? err.message || 'Unknown error' : 'Unknown error')
-				.result;
+		}
+
+		return this['~structure'](result, { content: [] });
+	};
+
+	// Adds the validated output to a result, along with its text fallback when it has no content.
+	'~structure' = async (value: unknown, result: CallToolResult): Promise<CallToolResult> => {
+		const output = await this['~output'](value);
+		const { text = safeStringify } = this['~config'].outputOptions ?? {};
+		return {
+			...result,
+			content: result.content.length
+				? result.content
+				: [
+						{
+							type: 'text' as const,
+							text: output === undefined ? safeStringify(value) : text(output)
+						}
+					],
+			structuredContent: output as { [key: string]: unknown } | undefined
+		};
+	};
+
+	// Validates the handler's return against the output schema, undefined when it must be left out.
+	'~output' = async (result: unknown) => {
+		const { output, outputOptions } = this['~config'];
+		const validation = await output!['~standard'].validate(result);
+		if (!validation.issues) {
+			return (validation as StandardSchemaV1.SuccessResult<unknown>).value;
+		}
+
+		const message = `Invalid tool output: ${validation.issues.map((issue) => issue.message).join(', ')}`;
+		switch (outputOptions?.validation ?? 'throw') {
+			case 'throw':
+				throw new ToolError(message);
+			case 'warn':
+				console.warn(message);
+				return result;
+			case 'strip':
+				return undefined;
 		}
 	};
 
@@ -110,51 +303,112 @@ export class Tool<
 		return validateInput(this['~config'].schema, input);
 	};
 
-	input = <SS extends StandardSchemaV1>(standardStandardSchemaV1: SS) => {
+	input = <SS extends StandardSchemaV1>(standardStandardSchemaV1: SS, options?: InputOptions) => {
 		this['~config'].schema = standardStandardSchemaV1 as unknown as Schema;
-		return this as unknown as Tool<SS, HandleToolFunction<SS>>;
+		this['~config'].inputOptions = options;
+		return this as unknown as Tool<SS, HandleToolFunction<SS, Context, Output>, Context, Output>;
 	};
 
-	output = (schema: StandardSchemaV1) => {
+	// The handler must then return what the schema describes, sent as `structuredContent`.
+	output = <OS extends StandardSchemaV1>(
+		schema: OS,
+		options?: OutputOptions<StandardSchemaV1.InferOutput<OS>>
+	) => {
 		this['~config'].output = schema;
-		return this as unknown as Tool<Schema, H>;
+		this['~config'].outputOptions = options;
+		return this as unknown as Tool<
+			Schema,
+			HandleToolFunction<Schema, Context, StandardSchemaV1.InferOutput<OS>>,
+			Context,
+			StandardSchemaV1.InferOutput<OS>
+		>;
+	};
+
+	use = <Added extends object = object>(middleware: ToolMiddleware<Schema, Context, Added>) => {
+		this['~config'].middleware.push(middleware);
+		return this as unknown as Tool<
+			Schema,
+			HandleToolFunction<Schema, Context & Added, Output>,
+			Context & Added,
+			Output
+		>;
 	};
 
-	handle = <HH extends HandleToolFunction<Schema>>(handler: HH) => {
+	handle = <HH extends HandleToolFunction<Schema, Context, Output>>(handler: HH) => {
 		this['~config'].handler = handler as unknown as H;
-		return this as unknown as Tool<Schema, HH>;
+		return this as unknown as Tool<Schema, HH, Context, Output>;
 	};
 
 	meta = (meta: { [key: string]: unknown }) => {
 		this['~config'].meta = meta;
-		return this as unknown as Tool<Schema, H>;
+		return this as unknown as Tool<Schema, H, Context, Output>;
+	};
+
+	// OAuth scopes the caller's token must have, when the server is protected with `auth`.
+	scopes = (...scopes: string[]) => {
+		this['~config'].scopes = scopes;
+		return this as unknown as Tool<Schema, H, Context, Output>;
+	};
+
+	/**
+	 * Caches the results of the tool by its arguments. Read-only tools use the cache options of
+	 * the server unless they set their own, or opt out with `cache(false)`. The middlewares still
+	 * run on every call, only the handler is skipped.
+	 */
+	cache = (options: CacheOptions | false) => {
+		this['~config'].cache = options;
+		return this;
+	};
+
+	// Limits how often and how many times at once the tool runs, on top of the server's limits.
+	rateLimit = (limit: RateLimit) => {
+		this['~config'].rateLimit = limit;
+		return this;
+	};
+
+	/**
+	 * Milliseconds the tool may run for, overriding the default of the server. Past them the
+	 * payload's `signal` aborts and the call answers with an error result.
+	 */
+	timeout = (timeout: number | false) => {
+		this['~config'].timeout = timeout;
+		return this;
+	};
+
+	/**
+	 * Runs the handler again when it throws, overriding the retry options of the server. Only
+	 * tools annotated with `idempotentHint` are retried, within their timeout.
+	 */
+	retry = (options: RetryOptions | false) => {
+		this['~config'].retry = options;
+		return this;
 	};
 
 	title = (title: string) => {
 		this['~config'].title = title;
-		return this as unknown as Tool<Schema, H>;
+		return this as unknown as Tool<Schema, H, Context, Output>;
 	};
 
 	annotations = (annotations: ToolAnnotations) => {
 		this['~config'].annotations = annotations;
-		return this as unknown as Tool<Schema, H>;
+		return this as unknown as Tool<Schema, H, Context, Output>;
 	};
 
 	widget = (widget: Widget) => {
 		this['~config'].widget = widget;
-		return this as unknown as Tool<Schema, H>;
+		return this as unknown as Tool<Schema, H, Context, Output>;
 	};
 }
 
 export const tool = (description: string) => new Tool(description);
 
-export const defineTools = (tools: Record<string, Tool<any, any>>) => {
+export const defineTools = (tools: Record<string, Tool<any, any, any, any>>) => {
 	return Object.entries(tools).map(([key, tool]) => {
 		return defineTool(key, tool);
 	});
 };
 
-export const defineTool = (name: string, tool: Tool<any, any>): SpecTool => {
+export const defineTool = (name: string, tool: Tool<any, any, any, any>): SpecTool => {
 	const { schema, description, output, meta = {}, title, annotations } = tool['~config'];
 	console.log(tool['~config'].widget?.toolMetadata);
 	return {
@@ -166,8 +420,8 @@ export const defineTool = (name: string, tool: Tool<any, any>): SpecTool => {
 		},
 		title,
 		annotations,
-		outputSchema: output ? toJsonSchema(output) : undefined,
-		inputSchema: schema ? toJsonSchema(schema) : { type: 'object' }
+		outputSchema: output ? toObjectJsonSchema(output) : undefined,
+		inputSchema: schema ? toObjectJsonSchema(schema, { io: 'input' }) : { type: 'object' }
 	};
 };
 
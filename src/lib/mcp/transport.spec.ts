@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Transport } from './transport';
+import { SSEConnection } from './utils/sse';
+
+const readChunk = async (reader: ReadableStreamDefaultReader<Uint8Array>) => {
+	const { value } = await reader.read();
+	return new TextDecoder().decode(value);
+};
+
+describe('Transport', () => {
+	it('sends server-initiated messages on the session stream', async () => {
+		const transport = new Transport();
+		const connection = new SSEConnection();
+		const reader = connection.body.getReader();
+		transport.listen('session', connection);
+
+		expect(await transport.notify('session', { jsonrpc: '2.0', method: 'a' })).toBe(true);
+		expect(await transport.notify('other', { jsonrpc: '2.0', method: 'a' })).toBe(false);
+		expect(await readChunk(reader)).toMatch(/^id: .+\ndata: {"jsonrpc":"2.0","method":"a"}\n\n$/);
+	});
+
+	it('replays missed messages when resuming with Last-Event-ID', async () => {
+		const transport = new Transport();
+		const first = new SSEConnection();
+		const firstReader = first.body.getReader();
+		transport.listen('session', first);
+
+		await transport.notify('session', { jsonrpc: '2.0', method: 'one' });
+		const lastEventId = (await readChunk(firstReader)).match(/^id: (.+)$/m)![1];
+		await firstReader.cancel();
+
+		// Sent while the client is disconnected
+		await transport.notify('session', { jsonrpc: '2.0', method: 'two' });
+
+		const second = new SSEConnection();
+		const secondReader = second.body.getReader();
+		await transport.resume('session', lastEventId, second);
+		expect(await readChunk(secondReader)).toContain('"method":"two"');
+
+		await transport.notify('session', { jsonrpc: '2.0', method: 'three' });
+		expect(await readChunk(secondReader)).toContain('"method":"three"');
+	});
+
+	it('closes the connection when resuming an unknown event', async () => {
+		const transport = new Transport();
+		const connection = new SSEConnection();
+		await transport.resume('session', 'unknown', connection);
+
+		expect(connection.closed).toBe(true);
+	});
+
+	it('refuses to resume the stream of another session', async () => {
+		const transport = new Transport();
+		const first = new SSEConnection();
+		const reader = first.body.getReader();
+		transport.listen('session', first);
+		await transport.notify('session', { jsonrpc: '2.0', method: 'one' });
+		await transport.notify('session', { jsonrpc: '2.0', method: 'two' });
+		const firstEventId = (await readChunk(reader)).match(/^id: (.+)$/m)![1];
+
+		const other = new SSEConnection();
+		expect(await transport.resume('other', firstEventId, other)).toBeUndefined();
+		expect(other.closed).toBe(true);
+		expect(await new Response(other.body).text()).toBe('');
+	});
+});
@@ -0,0 +1,203 @@
+import type { MaybePromise } from './types';
+import type { JSONRPCMessage } from './types/spec';
+import { SSEConnection } from './utils/sse';
+
+/**
+ * Stores every message sent over a stream so a client that lost its connection
+ * can resume it by sending the last event id it received (`Last-Event-ID`).
+ */
+export interface EventStore {
+	storeEvent: (streamId: string, message: JSONRPCMessage) => MaybePromise<string>;
+	/**
+	 * Replays the events of the stream `lastEventId` belongs to, in order, starting after it.
+	 * Returns the id of that stream, or undefined if the event is unknown.
+	 */
+	replayEventsAfter: (
+		lastEventId: string,
+		send: (eventId: string, message: JSONRPCMessage) => MaybePromise<void>
+	) => MaybePromise<string | undefined>;
+}
+
+export class InMemoryEventStore implements EventStore {
+	private events = new Map<string, { streamId: string; message: JSONRPCMessage }>();
+	private counter = 0;
+	constructor(private maxEvents = 1000) {}
+
+	storeEvent = (streamId: string, message: JSONRPCMessage) => {
+		const eventId = `${streamId}_${++this.counter}`;
+		this.events.set(eventId, { streamId, message });
+		if (this.events.size > this.maxEvents) {
+			this.events.delete(this.events.keys().next().value!);
+		}
+		return eventId;
+	};
+
+	replayEventsAfter = async (
+		lastEventId: string,
+		send: (eventId: string, message: JSONRPCMessage) => MaybePromise<void>
+	) => {
+		const last = this.events.get(lastEventId);
+		if (!last) {
+			return undefined;
+		}
+		let found = false;
+		for (const [eventId, { streamId, message }] of this.events) {
+			if (found && streamId === last.streamId) {
+				await send(eventId, message);
+			}
+			if (eventId === lastEventId) {
+				found = true;
+			}
+		}
+		return last.streamId;
+	};
+}
+
+const DEFAULT_RECONNECT_TIMEOUT = 30_000;
+
+// Stream ids start with the id of their session, which the event store keeps along with them.
+const isStreamOf = (streamId: string, sessionId: string) => streamId.startsWith(`${sessionId}/`);
+
+/**
+ * A logical stream of messages. Every message is recorded in the event store before being
+ * written to the current connection, so the stream survives disconnections and can be
+ * picked up again by another connection.
+ */
+export class MessageStream {
+	private connection?: SSEConnection;
+	private abandonTimer?: ReturnType<typeof setTimeout>;
+	constructor(
+		public id: string,
+		public sessionId: string,
+		private eventStore: EventStore,
+		private onEnd: () => void,
+		private onAbandon?: () => void,
+		private reconnectTimeout = DEFAULT_RECONNECT_TIMEOUT
+	) {}
+
+	get connected() {
+		return !!this.connection && !this.connection.closed;
+	}
+
+	connect = (connection: SSEConnection) => {
+		const previous = this.connection;
+		this.connection = connection;
+		clearTimeout(this.abandonTimer);
+		if (previous !== connection) {
+			previous?.close();
+		}
+		// A dropped connection is not a cancellation: the client has some time to resume the stream.
+		connection.onClose(() => {
+			if (this.connection === connection) {
+				this.abandonTimer = setTimeout(() => this.onAbandon?.(), this.reconnectTimeout);
+			}
+		});
+	};
+
+	send = async (message: JSONRPCMessage) => {
+		const eventId = await this.eventStore.storeEvent(this.id, message);
+		this.connection?.send(message, eventId);
+	};
+
+	// Writes a message without recording it, for when the event store fails.
+	write = (message: JSONRPCMessage) => {
+		return this.connection?.send(message) ?? false;
+	};
+
+	end = () => {
+		const connection = this.connection;
+		this.connection = undefined;
+		clearTimeout(this.abandonTimer);
+		connection?.close();
+		this.onEnd();
+	};
+}
+
+/**
+ * Keeps track of the live streams of the Streamable HTTP transport:
+ * one per POST answered with `text/event-stream`, and one standalone stream per session
+ * opened with GET, used for messages the server initiates.
+ */
+export class Transport {
+	private streams = new Map<string, MessageStream>();
+	private standaloneStreams = new Map<string, MessageStream>();
+	constructor(
+		public eventStore: EventStore = new InMemoryEventStore(),
+		private reconnectTimeout = DEFAULT_RECONNECT_TIMEOUT
+	) {}
+
+	// `onAbandon` is called when the client dropped the stream and did not resume it in time.
+	open = (sessionId: string, connection: SSEConnection, onAbandon?: () => void) => {
+		const stream = this.createStream(sessionId, undefined, onAbandon);
+		stream.connect(connection);
+		return stream;
+	};
+
+	listen = (sessionId: string, connection: SSEConnection) => {
+		let stream = this.standaloneStreams.get(sessionId);
+		if (!stream) {
+			stream = this.createStream(sessionId, () => this.standaloneStreams.delete(sessionId));
+			this.standaloneStreams.set(sessionId, stream);
+		}
+		stream.connect(connection);
+		return stream;
+	};
+
+	resume = async (sessionId: string, lastEventId: string, connection: SSEConnection) => {
+		const events: [string, JSONRPCMessage][] = [];
+		const streamId = await this.eventStore.replayEventsAfter(lastEventId, (eventId, message) => {
+			events.push([eventId, message]);
+		});
+		// Only the session a stream belongs to may resume it, even once it ended.
+		if (!streamId || !isStreamOf(streamId, sessionId)) {
+			connection.close();
+			return undefined;
+		}
+		for (const [eventId, message] of events) {
+			connection.send(message, eventId);
+		}
+		const stream = this.streams.get(streamId);
+		if (stream) {
+			stream.connect(connection);
+		} else {
+			// Either the event is unknown or its stream already ended: nothing more will come.
+			connection.close();
+		}
+		return stream;
+	};
+
+	notify = async (sessionId: string, message: JSONRPCMessage) => {
+		const stream = this.standaloneStreams.get(sessionId);
+		if (!stream) {
+			return false;
+		}
+		await stream.send(message);
+		return true;
+	};
+
+	// Sends a message to every session listening on a standalone stream.
+	broadcast = async (message: JSONRPCMessage) => {
+		await Promise.all([...this.standaloneStreams.values()].map((stream) => stream.send(message)));
+	};
+
+	close = (sessionId: string) => {
+		this.standaloneStreams.get(sessionId)?.end();
+	};
+
+	private createStream = (sessionId: string, onEnd?: () => void, onAbandon?: () => void) => {
+		const id = `${sessionId}/${crypto.randomUUID()}`;
+		const stream = new MessageStream(
+			id,
+			sessionId,
+			this.eventStore,
+			() => {
+				this.streams.delete(id);
+				onEnd?.();
+			},
+			onAbandon,
+			this.reconnectTimeout
+		);
+		this.streams.set(id, stream);
+		return stream;
+	};
+}
@@ -1,7 +1,15 @@
 import { Prompt } from '../prompts';
 import { Resource } from '../resources';
-import { Tool } from '../tools';
+import { Tool, type InputOptions, type ToolMiddleware } from '../tools';
 import type { Widget } from '../widget';
+import type { EventStore } from '../transport';
+import type { SessionStore } from '../session';
+import type { CustomMethods } from '../handler';
+import type { AuthConfig } from '../auth';
+import type { LogSink } from '../logging';
+import type { CacheOptions } from '../cache';
+import type { CounterStore, RateLimit } from '../ratelimit';
+import type { RetryOptions } from '../retry';
 export { type StandardSchemaV1 } from './standardSchema';
 
 export type OmitNever<T> = Pick<
@@ -15,9 +23,42 @@ export type MaybePromise<T> = Promise<T> | T;
 export type MCPServer = {
 	domain?: string;
 	widgets?: Record<string, Widget>;
-	tools?: Record<string, Tool<any, any>>;
+	tools?: Record<string, Tool<any, any, any>>;
 	prompts?: Record<string, Prompt<any, any>>;
-	resources?: Record<string, Resource<any>>;
+	resources?: Record<string, Resource<any, any>>;
 	name: string;
 	version: string;
+	/** Where streamed messages are kept so clients can resume with `Last-Event-ID`. Defaults to memory. */
+	eventStore?: EventStore;
+	/**
+	 * Milliseconds a client has to resume a dropped response stream with `Last-Event-ID` before
+	 * the requests it answers are aborted. Defaults to 30 seconds.
+	 */
+	reconnectTimeout?: number;
+	/** How many tools, prompts or resources the list methods answer with at once. Defaults to 100. */
+	pageSize?: number;
+	/** Also receives the logs sent to clients, e.g. to keep them on the server side. */
+	logSink?: LogSink;
+	/** Protects the server with OAuth 2.1, as described by the MCP authorization spec. */
+	auth?: AuthConfig;
+	/** Caches the results of read-only tools, and is where other tools keep theirs by default. */
+	cache?: CacheOptions;
+	/** Limits the calls of all tools together, see `Tool.rateLimit` for a single one. */
+	rateLimit?: RateLimit;
+	/** Milliseconds a tool call may run for, see `Tool.timeout`. */
+	timeout?: number;
+	/** How tools annotated with `idempotentHint` are retried when they throw, see `Tool.retry`. */
+	retry?: RetryOptions;
+	/** Where rate limits are counted. Defaults to memory, which only counts calls to this instance. */
+	counterStore?: CounterStore;
+	/** How tools report invalid arguments by default, see `InputOptions`. */
+	inputErrors?: InputOptions['errors'];
+	/** Middlewares run around every tool call, before the ones of the tool. */
+	middleware?: ToolMiddleware[];
+	/** Custom JSON-RPC methods, or overrides of the built-in ones, keyed by method name. */
+	methods?: CustomMethods;
+	/** Where sessions are persisted between requests. Defaults to memory. */
+	sessionStore?: SessionStore;
+	/** Answer POST requests with plain JSON even when the client accepts `text/event-stream`. */
+	jsonResponse?: boolean;
 };
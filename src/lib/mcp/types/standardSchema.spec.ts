@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import z from 'zod/v4';
+import * as v from 'valibot';
+import { Schema } from 'effect';
+import { type } from 'arktype';
+import { normalizeIssues, type StandardSchemaV1 } from './standardSchema';
+
+describe('normalizeIssues', () => {
+	const issuesOf = async (schema: StandardSchemaV1, value: unknown) => {
+		const result = await schema['~standard'].validate(value);
+		return normalizeIssues(result.issues!);
+	};
+
+	it('normalizes the issues of every schema library', async () => {
+		const value = { user: { age: 'x' } };
+
+		expect(await issuesOf(z.object({ user: z.object({ age: z.number() }) }), value)).toEqual([
+			{
+				path: '/user/age',
+				message: 'Invalid input: expected number, received string',
+				expected: 'number'
+			}
+		]);
+		expect(await issuesOf(v.object({ user: v.object({ age: v.number() }) }), value)).toEqual([
+			{
+				path: '/user/age',
+				message: 'Invalid type: Expected number but received "x"',
+				expected: 'number',
+				received: '"x"'
+			}
+		]);
+		const effect = Schema.standardSchemaV1(
+			Schema.Struct({ user: Schema.Struct({ age: Schema.Number }) })
+		);
+		expect(await issuesOf(effect, value)).toEqual([
+			{ path: '/user/age', message: 'Expected number, actual "x"' }
+		]);
+		const ark = type.raw({ user: { age: 'number' } }) as StandardSchemaV1;
+		expect(await issuesOf(ark, value)).toEqual([
+			{
+				path: '/user/age',
+				message: 'user.age must be a number (was a string)',
+				expected: 'a number',
+				received: 'a string'
+			}
+		]);
+	});
+});
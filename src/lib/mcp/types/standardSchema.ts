@@ -70,16 +70,66 @@ export declare namespace StandardSchemaV1 {
 	// biome-ignore lint/complexity/noUselessEmptyExport: needed for granular visibility control of TS namespace
 	export {};
 }
+/** A validation issue, the same whichever library reported it. */
+export type ValidationIssue = {
+	/** JSON pointer to the invalid value, e.g. `/user/age`, empty for the value itself. */
+	path: string;
+	message: string;
+	expected?: string;
+	received?: string;
+};
+
+const pointer = (path: StandardSchemaV1.Issue['path'] = []) => {
+	return path
+		.map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+		.map((key) => `/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+		.join('');
+};
+
+// Zod and valibot report `expected`, valibot `received` and arktype `actual`. Effect only has messages.
+export const normalizeIssues = (issues: ReadonlyArray<StandardSchemaV1.Issue>) => {
+	// Some libraries extend arrays to hold their issues, they are copied to a plain one.
+	return Array.from(issues, (issue) => {
+		const { expected, received, actual } = issue as {
+			expected?: unknown;
+			received?: unknown;
+			actual?: unknown;
+		};
+		const found = received ?? actual;
+		return {
+			path: pointer(issue.path),
+			message: issue.message,
+			...(typeof expected === 'string' ? { expected } : {}),
+			...(typeof found === 'string' ? { received: found } : {})
+		} satisfies ValidationIssue;
+	});
+};
+
+/** An `INVALID_PARAMS` error with the issues in its data. */
+export const validationError = (
+	issues: ReadonlyArray<StandardSchemaV1.Issue>,
+	message = 'Invalid input',
+	data?: Record<string, unknown>
+) => {
+	const normalized = normalizeIssues(issues);
+	const details = normalized.map((issue) => (issue.path ? `${issue.path}: ` : '') + issue.message);
+	return mcpError('INVALID_PARAMS', `${message}: ${details.join(', ')}`, {
+		...data,
+		issues: normalized
+	});
+};
+
 export async function validateInput(
 	schema: StandardSchemaV1,
-	data: unknown
+	data: unknown,
+	message?: string
 ): Promise<any | MCPError> {
 	let result = schema['~standard'].validate(data);
 	if (result instanceof Promise) result = await result;
 
 	// if the `issues` field exists, the validation failed
 	if (result.issues) {
-		throw new Error(JSON.stringify(result.issues, null, 2));
+		throw validationError(result.issues, message);
 	}
 
 	return (result as StandardSchemaV1.SuccessResult<any>).value;
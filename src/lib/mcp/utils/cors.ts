@@ -1,9 +1,17 @@
+// Bearer tokens are sent explicitly, never as cookies: no credentials needed, so any origin is fine.
 export const corsHeaders = {
 	'Access-Control-Allow-Origin': '*',
-	'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-	'Access-Control-Allow-Headers': '*',
-	'Access-Control-Allow-Credentials': 'true'
+	'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+	'Access-Control-Allow-Headers':
+		'Authorization, Content-Type, Accept, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID',
+	'Access-Control-Expose-Headers': 'Mcp-Session-Id, WWW-Authenticate'
 };
 export const handleCors = () => {
 	return new Response('OK', { headers: corsHeaders, status: 200 });
 };
+export const withCors = (response: Response) => {
+	for (const [key, value] of Object.entries(corsHeaders)) {
+		response.headers.set(key, value);
+	}
+	return response;
+};
@@ -1,4 +1,4 @@
-export const handleGetDeleteMethodNotAllowed = async () => {
+export const handleMethodNotAllowed = async () => {
 	return new Response(
 		JSON.stringify({
 			jsonrpc: '2.0',
@@ -11,7 +11,8 @@ export const handleGetDeleteMethodNotAllowed = async () => {
 		{
 			status: 405,
 			headers: {
-				'Content-Type': 'application/json'
+				'Content-Type': 'application/json',
+				Allow: 'GET, POST, DELETE, OPTIONS'
 			}
 		}
 	);
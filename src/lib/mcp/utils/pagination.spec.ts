@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { listSource, paginate } from './pagination';
+
+const cursorOf = (position: object) => {
+	return btoa(JSON.stringify(position)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+describe('paginate', () => {
+	const letters = listSource(['a', 'b', 'c', 'd'], (letter) => letter);
+
+	it('fills pages from the sources one after the other', async () => {
+		const digits = listSource(['1', '2'], (digit) => digit);
+		const first = await paginate([letters, digits], undefined, 3);
+		const second = await paginate([letters, digits], first.nextCursor, 3);
+
+		expect(first.items).toEqual(['a', 'b', 'c']);
+		expect(second).toEqual({ items: ['d', '1', '2'], nextCursor: undefined });
+	});
+
+	it('pages through items and source cursors outside Latin-1', async () => {
+		const names = listSource(['東京', '大阪', '🙂'], (name) => name);
+		const pages = (cursor: string | undefined) =>
+			cursor ? { items: [cursor] } : { items: ['première'], nextCursor: 'deuxième page' };
+		const first = await paginate([names], undefined, 1);
+		const second = await paginate([names], first.nextCursor, 1);
+		const resumed = await paginate([pages], (await paginate([pages], undefined, 1)).nextCursor, 1);
+
+		expect(second.items).toEqual(['大阪']);
+		expect((await paginate([names], second.nextCursor, 1)).items).toEqual(['🙂']);
+		expect(resumed.items).toEqual(['deuxième page']);
+	});
+
+	it('rejects cursors pointing to no source', async () => {
+		for (const source of [-1, 1, 0.5, '0']) {
+			await expect(paginate([letters], cursorOf({ source }), 2)).rejects.toMatchObject({
+				'~code': -32602
+			});
+		}
+		await expect(paginate([letters], 'not a cursor', 2)).rejects.toMatchObject({
+			'~code': -32602
+		});
+	});
+});
+
+describe('listSource', () => {
+	it('continues after the last item sent when items are added or removed before it', async () => {
+		const items = ['a', 'b', 'c', 'd'];
+		const source = listSource(items, (item) => item);
+		const first = await source(undefined, 2);
+		items.splice(0, 1, 'x', 'y');
+
+		expect(first.items).toEqual(['a', 'b']);
+		expect((await source(first.nextCursor, 2)).items).toEqual(['c', 'd']);
+	});
+
+	it('continues from where the last item sent was when it is removed', async () => {
+		const items = ['a', 'b', 'c', 'd'];
+		const source = listSource(items, (item) => item);
+		const first = await source(undefined, 2);
+		items.splice(1, 1);
+
+		expect((await source(first.nextCursor, 2)).items).toEqual(['c', 'd']);
+	});
+});
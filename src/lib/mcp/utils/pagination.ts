@@ -0,0 +1,94 @@
+import type { MaybePromise } from '../types';
+import { mcpError } from '../errors';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+export type Page<T> = { items: T[]; nextCursor?: string };
+
+/** Where the items of a list come from, one page at a time. */
+export type PageSource<T> = (cursor: string | undefined, limit: number) => MaybePromise<Page<T>>;
+
+// Base64url of the UTF-8 bytes, as keys and the cursors of data sources may be any text.
+const encodeCursor = (position: { source: number; cursor?: string }) => {
+	const bytes = new TextEncoder().encode(JSON.stringify(position));
+	return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+};
+
+const decodeCursor = (cursor: string, sources: number) => {
+	try {
+		const bytes = Uint8Array.from(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')), (char) =>
+			char.charCodeAt(0)
+		);
+		const position = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+		if (
+			Number.isInteger(position.source) &&
+			position.source >= 0 &&
+			position.source < sources &&
+			(position.cursor === undefined || typeof position.cursor === 'string')
+		) {
+			return position as { source: number; cursor?: string };
+		}
+	} catch {
+		// invalid below
+	}
+	throw mcpError('INVALID_PARAMS', 'Invalid cursor');
+};
+
+// Where to continue after the item a cursor points to, or after its position when it was removed.
+const resumeAt = <T>(items: T[], key: (item: T) => string, cursor: string) => {
+	const match = cursor.match(/^(\d+):([\s\S]*)$/);
+	if (!match) {
+		throw mcpError('INVALID_PARAMS', 'Invalid cursor');
+	}
+	const index = items.findIndex((item) => key(item) === match[2]);
+	return index === -1 ? Math.min(Number(match[1]), items.length) : index + 1;
+};
+
+// Pages through a list in memory. Cursors point to the last item sent rather than to an offset,
+// so that adding or removing items before it does not skip or repeat others. When that item
+// itself was removed, the list continues from where it was.
+export const listSource = <T>(items: T[], key: (item: T) => string): PageSource<T> => {
+	return (cursor, limit) => {
+		const start = cursor === undefined ? 0 : resumeAt(items, key, cursor);
+		const page = items.slice(start, start + limit);
+		return {
+			items: page,
+			nextCursor:
+				start + limit < items.length
+					? `${start + page.length - 1}:${key(page[page.length - 1])}`
+					: undefined
+		};
+	};
+};
+
+/**
+ * Fills a page from several sources, one after the other. The cursor is opaque to clients:
+ * it tells which source to continue with, and where in it.
+ */
+export const paginate = async <T>(
+	sources: PageSource<T>[],
+	cursor: string | undefined,
+	pageSize = DEFAULT_PAGE_SIZE
+): Promise<Page<T>> => {
+	let { source, cursor: sourceCursor } = cursor
+		? decodeCursor(cursor, sources.length)
+		: { source: 0, cursor: undefined };
+	const items: T[] = [];
+	while (source < sources.length && items.length < pageSize) {
+		const page = await sources[source](sourceCursor, pageSize - items.length);
+		items.push(...page.items);
+		if (page.nextCursor === undefined || !page.items.length) {
+			source++;
+			sourceCursor = undefined;
+		} else {
+			sourceCursor = page.nextCursor;
+		}
+	}
+	return {
+		items,
+		nextCursor: source < sources.length ? encodeCursor({ source, cursor: sourceCursor }) : undefined
+	};
+};
@@ -0,0 +1,70 @@
+const encoder = new TextEncoder();
+
+export const sseHeaders = {
+	'Content-Type': 'text/event-stream',
+	'Cache-Control': 'no-cache',
+	Connection: 'keep-alive'
+};
+
+// A single HTTP connection carrying server-sent events.
+// It can be closed by us (end of a POST response) or by the client (disconnect).
+export class SSEConnection {
+	closed = false;
+	readonly body: ReadableStream<Uint8Array>;
+	private controller!: ReadableStreamDefaultController<Uint8Array>;
+	private closeListeners = new Set<() => void>();
+
+	constructor() {
+		this.body = new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				this.controller = controller;
+			},
+			cancel: () => {
+				this.markClosed();
+			}
+		});
+	}
+
+	send = (data: unknown, id?: string) => {
+		if (this.closed) {
+			return false;
+		}
+		const event = `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+		this.controller.enqueue(encoder.encode(event));
+		return true;
+	};
+
+	close = () => {
+		if (this.closed) {
+			return;
+		}
+		try {
+			this.controller.close();
+		} catch {
+			// The client already went away
+		}
+		this.markClosed();
+	};
+
+	onClose = (listener: () => void) => {
+		this.closeListeners.add(listener);
+		return () => this.closeListeners.delete(listener);
+	};
+
+	response = (headers: Record<string, string> = {}) => {
+		return new Response(this.body, {
+			headers: {
+				...sseHeaders,
+				...headers
+			}
+		});
+	};
+
+	private markClosed = () => {
+		this.closed = true;
+		for (const listener of this.closeListeners) {
+			listener();
+		}
+		this.closeListeners.clear();
+	};
+}
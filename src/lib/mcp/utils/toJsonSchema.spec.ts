@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import z from 'zod/v4';
+import * as v from 'valibot';
+import type { StandardSchemaV1 } from '../types/standardSchema';
+import { registerJsonSchemaConverter, toJsonSchema, toObjectJsonSchema } from './toJsonSchema';
+
+describe('toJsonSchema', () => {
+	const custom = (vendor: string, extra: object = {}) =>
+		({
+			'~standard': { version: 1, vendor, validate: (value: unknown) => ({ value }), ...extra }
+		}) as StandardSchemaV1;
+
+	it('converts the schemas of registered libraries and of the Standard JSON Schema interface', () => {
+		registerJsonSchemaConverter('test-vendor', () => ({
+			$schema: 'http://json-schema.org/draft-07/schema#',
+			type: 'object',
+			properties: { id: { type: 'string' } }
+		}));
+		const standard = custom('other', {
+			jsonSchema: {
+				input: () => ({ type: 'object', properties: { in: { type: 'number' } } }),
+				output: () => ({ type: 'object', properties: { out: { type: 'number' } } })
+			}
+		});
+
+		expect(toJsonSchema(custom('test-vendor'))).toEqual({
+			type: 'object',
+			properties: { id: { type: 'string' } }
+		});
+		expect(toJsonSchema(standard, { io: 'input' }).properties).toEqual({ in: { type: 'number' } });
+		expect(() => toJsonSchema(custom('unknown'))).toThrow('Unsupported schema validation library');
+	});
+
+	it('keeps properties named like keywords', () => {
+		const schema = z.object({
+			definitions: z.string(),
+			$defs: z.number(),
+			$ref: z.string(),
+			additionalItems: z.boolean(),
+			name: z.string()
+		});
+
+		const converted = toJsonSchema(schema);
+		expect(Object.keys(converted.properties)).toEqual([
+			'definitions',
+			'$defs',
+			'$ref',
+			'additionalItems',
+			'name'
+		]);
+		expect(converted.properties.$defs).toEqual({ type: 'number' });
+		expect(converted.required).toEqual(Object.keys(converted.properties));
+	});
+
+	it('inlines references, keeping recursive ones, or hoists them', () => {
+		const point = z.object({ x: z.number() }).meta({ id: 'Point' });
+		const node: z.ZodType = z.object({ name: z.string(), children: z.lazy(() => z.array(node)) });
+		const schema = z.object({ a: point, b: point, tree: node });
+
+		const inlined = toJsonSchema(schema);
+		expect(inlined.properties.a).toMatchObject({ type: 'object', properties: { x: {} } });
+		expect(inlined.properties.tree.properties.children.items).toEqual({
+			$ref: expect.stringMatching(/^#\/\$defs\//)
+		});
+		expect(Object.keys(inlined.$defs)).toHaveLength(1);
+
+		const hoisted = toJsonSchema(schema, { refs: 'hoist' });
+		expect(hoisted.properties.a).toEqual({ $ref: '#/$defs/Point' });
+		expect(hoisted.$defs.Point).toMatchObject({ type: 'object' });
+	});
+
+	it('outputs draft 2020-12 whatever the draft of the library', () => {
+		const schema = toJsonSchema(v.object({ pair: v.tuple([v.string(), v.number()]) }));
+
+		expect(schema.$schema).toBeUndefined();
+		expect(schema.properties.pair.prefixItems).toEqual([{ type: 'string' }, { type: 'number' }]);
+	});
+
+	it('types unions of objects as objects and rejects other roots', () => {
+		const union = z.union([z.object({ a: z.string() }), z.object({ b: z.number() })]);
+
+		expect(toObjectJsonSchema(union)).toMatchObject({ type: 'object', anyOf: [{}, {}] });
+		expect(toJsonSchema(z.string())).toEqual({ type: 'string' });
+		expect(() => toObjectJsonSchema(z.string())).toThrow('Schema is not an object');
+	});
+});
@@ -7,46 +7,232 @@ import { toJSONSchema as zodToJsonSchema } from 'zod/v4/core';
 import { type JSONSchema7 } from 'json-schema';
 import { type Schema as EffectSchema, JSONSchema } from 'effect';
 
-const isArktypeSchema = (schema: StandardSchemaV1): schema is ArktypeSchema => {
-	return schema['~standard'].vendor === 'arktype';
+export type JsonSchemaOptions = {
+	/** Describe the values the schema accepts, or the ones it outputs (default). */
+	io?: 'input' | 'output';
+	/**
+	 * Replace references by the definitions they point to (default), which every client
+	 * understands, or keep the definitions in `$defs` at the root. Recursive definitions are
+	 * always kept.
+	 */
+	refs?: 'inline' | 'hoist';
 };
 
-const isValibotSchema = (schema: StandardSchemaV1): schema is ValibotSchema => {
-	return schema['~standard'].vendor === 'valibot';
+/** Converts the schemas of a validation library, see `registerJsonSchemaConverter`. */
+export type JsonSchemaConverter = (
+	schema: StandardSchemaV1,
+	options: Required<JsonSchemaOptions>
+) => JSONSchema7;
+
+// The Standard JSON Schema interface, for libraries that convert their own schemas.
+type StandardJsonSchema = StandardSchemaV1 & {
+	'~standard': {
+		jsonSchema: Record<
+			'input' | 'output',
+			(options: { target: 'draft-2020-12' }) => Record<string, unknown>
+		>;
+	};
+};
+
+const builtins: Record<string, JsonSchemaConverter> = {
+	arktype: (schema) => (schema as ArktypeSchema).toJsonSchema() as JSONSchema7,
+	valibot: (schema) => valibotToJsonSchema(schema as ValibotSchema) as JSONSchema7,
+	zod: (schema, { io }) => {
+		return zodToJsonSchema(schema as ZodType, {
+			io,
+			unrepresentable: 'any',
+			// Dates travel as ISO strings.
+			override: ({ zodSchema, jsonSchema }) => {
+				if (zodSchema._zod.def.type === 'date') {
+					jsonSchema.type = 'string';
+					jsonSchema.format = 'date-time';
+				}
+			}
+		}) as JSONSchema7;
+	},
+	effect: (schema) => {
+		// @ts-ignore
+		return JSONSchema.make(schema as EffectSchema.Schema<unknown, unknown, never>) as JSONSchema7;
+	}
 };
 
-const isZodSchema = (schema: StandardSchemaV1): schema is ZodType => {
-	return schema['~standard'].vendor === 'zod';
+const converters = new Map<string, JsonSchemaConverter>();
+
+/**
+ * Teaches `toJsonSchema` the schemas of another library, e.g. TypeBox or Yup, by the vendor
+ * name of their Standard Schema interface. Also replaces the built-in converter of a vendor.
+ */
+export const registerJsonSchemaConverter = (vendor: string, converter: JsonSchemaConverter) => {
+	converters.set(vendor, converter);
+};
+
+const hasStandardJsonSchema = (schema: StandardSchemaV1): schema is StandardJsonSchema => {
+	return typeof (schema as StandardJsonSchema)['~standard'].jsonSchema?.input === 'function';
 };
 
-const isEffectSchema = (
-	schema: StandardSchemaV1
-	// @ts-ignore
-): schema is EffectSchema.Schema<unknown, unknown, never> => {
-	return schema['~standard'].vendor === 'effect';
+type Definitions = Record<string, JSONSchema7>;
+
+const isObject = (value: unknown): value is Record<string, any> => {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
 };
 
-export const toJsonSchema = (schema: StandardSchemaV1): JSONSchema7.Object => {
-	let jsonSchema: JSONSchema7.Object;
-	if (isArktypeSchema(schema)) {
-		jsonSchema = schema.toJsonSchema() as JSONSchema7.Object;
+const refName = (ref: unknown) => {
+	const match = typeof ref === 'string' ? ref.match(/^#\/(?:\$defs|definitions)\/(.+)$/) : null;
+	return match?.[1].replace(/~1/g, '/').replace(/~0/g, '~');
+};
+
+// Keywords mapping names to subschemas, whose keys are names rather than keywords.
+const SCHEMA_MAP_KEYWORDS = [
+	'properties',
+	'patternProperties',
+	'dependentSchemas',
+	'dependencies',
+	'$defs',
+	'definitions'
+];
+// Keywords holding values rather than schemas.
+const DATA_KEYWORDS = ['const', 'enum', 'default', 'examples', 'required'];
+
+// Applies a function to the direct subschemas of a schema, leaving names and values alone.
+const mapSubschemas = (schema: Record<string, any>, map: (subschema: unknown) => unknown) => {
+	return Object.fromEntries(
+		Object.entries(schema).map(([key, value]) => {
+			if (DATA_KEYWORDS.includes(key)) {
+				return [key, value];
+			}
+			if (SCHEMA_MAP_KEYWORDS.includes(key) && isObject(value)) {
+				return [
+					key,
+					Object.fromEntries(Object.entries(value).map(([name, item]) => [name, map(item)]))
+				];
+			}
+			return [key, Array.isArray(value) ? value.map(map) : map(value)];
+		})
+	);
+};
+
+// Moves the definitions found anywhere in the schema to the root, keyed by their name.
+const collectDefinitions = (value: unknown, definitions: Definitions): unknown => {
+	if (!isObject(value)) {
+		return value;
 	}
-	if (isValibotSchema(schema)) {
-		jsonSchema = valibotToJsonSchema(schema) as JSONSchema7.Object;
+	const { $defs, definitions: legacy, ...rest } = value;
+	for (const [name, definition] of Object.entries({ ...legacy, ...$defs })) {
+		definitions[name] = collectDefinitions(definition, definitions) as JSONSchema7;
 	}
-	if (isZodSchema(schema)) {
-		jsonSchema = zodToJsonSchema(schema) as JSONSchema7.Object;
+	return mapSubschemas(rest, (item) => collectDefinitions(item, definitions));
+};
+
+/**
+ * Rewrites draft-07 keywords to their draft 2020-12 equivalents: tuples use `prefixItems`,
+ * references point to `$defs`, and `$ref` can have siblings.
+ */
+const toDraft202012 = (
+	value: unknown,
+	definitions: Definitions,
+	refs: 'inline' | 'hoist',
+	inlining: string[] = []
+): unknown => {
+	if (!isObject(value)) {
+		return value;
 	}
-	if (isEffectSchema(schema)) {
-		jsonSchema = JSONSchema.make(schema) as JSONSchema7.Object;
+
+	const name = refName(value.$ref);
+	const siblings = Object.fromEntries(Object.entries(value).filter(([key]) => key !== '$ref'));
+	// Recursive definitions cannot be inlined, they stay referenced.
+	if (name !== undefined && refs === 'inline' && definitions[name] && !inlining.includes(name)) {
+		return toDraft202012({ ...definitions[name], ...siblings }, definitions, refs, [
+			...inlining,
+			name
+		]);
 	}
 
-	if (!jsonSchema) {
-		throw new Error('Unsupported schema validation library');
+	const schema: Record<string, unknown> = name !== undefined ? { $ref: `#/$defs/${name}` } : {};
+	const converted = mapSubschemas(siblings, (item) =>
+		toDraft202012(item, definitions, refs, inlining)
+	);
+	for (const [key, item] of Object.entries(converted)) {
+		if (key === 'items' && Array.isArray(item)) {
+			schema.prefixItems = item;
+		} else if (key === 'additionalItems') {
+			schema.items = item;
+		} else {
+			schema[key] = item;
+		}
 	}
-	if (jsonSchema.type !== 'object') {
-		throw new Error('Schema is not an object');
+	return schema;
+};
+
+// The definitions still referenced once the others were inlined, including from each other.
+const usedDefinitions = (schema: unknown, definitions: Definitions) => {
+	const used = new Set<string>();
+	const visit = (value: unknown) => {
+		if (!isObject(value)) {
+			return value;
+		}
+		const name = refName(value.$ref);
+		if (name !== undefined && !used.has(name) && definitions[name]) {
+			used.add(name);
+			visit(definitions[name]);
+		}
+		mapSubschemas(value, visit);
+		return value;
+	};
+	visit(schema);
+	return used;
+};
+
+/**
+ * Converts a schema to JSON Schema draft 2020-12, with the converter registered for its
+ * library, the Standard JSON Schema interface when the library implements it, or a built-in
+ * converter for zod, valibot, arktype and effect.
+ */
+export const toJsonSchema = (
+	schema: StandardSchemaV1,
+	{ io = 'output', refs = 'inline' }: JsonSchemaOptions = {}
+): JSONSchema7 => {
+	const { vendor } = schema['~standard'];
+	const converter =
+		converters.get(vendor) ??
+		(hasStandardJsonSchema(schema)
+			? () => schema['~standard'].jsonSchema[io]({ target: 'draft-2020-12' }) as JSONSchema7
+			: builtins[vendor]);
+	if (!converter) {
+		throw new Error(`Unsupported schema validation library: ${vendor}`);
+	}
+
+	const definitions: Definitions = {};
+	const root = collectDefinitions(converter(schema, { io, refs }), definitions) as JSONSchema7;
+	// Clients assume draft 2020-12, some reject the other drafts.
+	delete root.$schema;
+	const converted = toDraft202012(root, definitions, refs) as JSONSchema7;
+
+	const used = usedDefinitions(converted, definitions);
+	if (!used.size) {
+		return converted;
 	}
+	return {
+		...converted,
+		$defs: Object.fromEntries(
+			[...used].map((name) => [name, toDraft202012(definitions[name], definitions, 'hoist')])
+		)
+	};
+};
 
-	return jsonSchema;
+const isObjectSchema = (schema: JSONSchema7): boolean => {
+	const variants = schema.anyOf ?? schema.oneOf;
+	return schema.type === 'object' || (!schema.type && !!variants?.every(isObjectSchema));
+};
+
+/**
+ * Converts a schema that must describe an object, as tool inputs and outputs, prompt
+ * arguments and elicitation forms do. Unions of objects are typed as objects at the root,
+ * which clients require.
+ */
+export const toObjectJsonSchema = (schema: StandardSchemaV1, options?: JsonSchemaOptions) => {
+	const jsonSchema = toJsonSchema(schema, options);
+	if (!isObjectSchema(jsonSchema)) {
+		throw new Error('Schema is not an object');
+	}
+	return { ...jsonSchema, type: 'object' } as JSONSchema7 & { type: 'object' };
 };
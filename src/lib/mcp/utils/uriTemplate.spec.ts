@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { expandTemplate, UriTemplate } from './uriTemplate';
+
+describe('UriTemplate', () => {
+	const template = new UriTemplate('files://{owner}{/path,file}{.ext}{;v}{?q,lang}{#section}');
+	const values = {
+		owner: 'me',
+		path: 'docs',
+		file: 'read me',
+		ext: 'md',
+		v: '2',
+		q: 'a&b',
+		lang: 'fr',
+		section: 'intro'
+	};
+
+	it('expands every level 3 operator', () => {
+		expect(template.expand(values)).toBe('files://me/docs/read%20me.md;v=2?q=a%26b&lang=fr#intro');
+	});
+
+	it('matches the URIs it expands to, with or without the optional parts', () => {
+		expect(template.match(template.expand(values))).toEqual(values);
+		expect(template.match('files://me/docs?lang=fr')).toEqual({
+			owner: 'me',
+			path: 'docs',
+			lang: 'fr'
+		});
+		expect(template.match('other://me')).toBeUndefined();
+	});
+});
+
+describe('expandTemplate', () => {
+	it('leaves out undefined variables and keeps reserved characters with +', () => {
+		expect(expandTemplate('users://{id}{?tab}', { id: 1 })).toBe('users://1');
+		expect(expandTemplate('{+base}/x', { base: 'http://a/b' })).toBe('http://a/b/x');
+	});
+});
@@ -0,0 +1,186 @@
+// RFC 6570 URI templates, up to level 3: every operator, without the level 4 modifiers.
+
+type Operator = '' | '+' | '#' | '.' | '/' | ';' | '?' | '&';
+
+type Expression = { operator: Operator; names: string[] };
+
+const operators: Record<
+	Operator,
+	{ first: string; separator: string; named: boolean; ifEmpty: string; reserved: boolean }
+> = {
+	'': { first: '', separator: ',', named: false, ifEmpty: '', reserved: false },
+	'+': { first: '', separator: ',', named: false, ifEmpty: '', reserved: true },
+	'#': { first: '#', separator: ',', named: false, ifEmpty: '', reserved: true },
+	'.': { first: '.', separator: '.', named: false, ifEmpty: '', reserved: false },
+	'/': { first: '/', separator: '/', named: false, ifEmpty: '', reserved: false },
+	';': { first: ';', separator: ';', named: true, ifEmpty: '', reserved: false },
+	'?': { first: '?', separator: '&', named: true, ifEmpty: '=', reserved: false },
+	'&': { first: '&', separator: '&', named: true, ifEmpty: '=', reserved: false }
+};
+
+type Names<V extends string> = V extends `${infer Name},${infer Rest}` ? Name | Names<Rest> : V;
+
+type ExpressionNames<E extends string> = E extends `${'+' | '#' | '.' | '/' | ';'}${infer V}`
+	? Names<V>
+	: E extends `${'?' | '&'}${string}`
+		? never
+		: Names<E>;
+
+type QueryNames<E extends string> = E extends `${'?' | '&'}${infer V}` ? Names<V> : never;
+
+type Variables<T extends string> = T extends `${string}{${infer E}}${infer Rest}`
+	? ExpressionNames<E> | Variables<Rest>
+	: never;
+
+type QueryVariables<T extends string> = T extends `${string}{${infer E}}${infer Rest}`
+	? QueryNames<E> | QueryVariables<Rest>
+	: never;
+
+/** The variables of a URI template, query variables being optional. */
+export type TemplateParams<T extends string> = { [K in Variables<T>]: string } & {
+	[K in QueryVariables<T>]?: string;
+};
+
+export type TemplateValues = Record<string, string | number | boolean | undefined>;
+
+const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const encode = (value: string, reserved: boolean) => {
+	return reserved
+		? encodeURI(value).replace(/%25([0-9A-F]{2})/gi, '%$1')
+		: encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16)}`);
+};
+
+const decode = (value: string) => {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+};
+
+export class UriTemplate {
+	private parts: (string | Expression)[] = [];
+	private regex: RegExp;
+
+	constructor(public readonly template: string) {
+		for (const part of template.split(/(\{[^{}]*\})/)) {
+			if (!part) {
+				continue;
+			}
+			if (part.startsWith('{')) {
+				const body = part.slice(1, -1);
+				const operator = (body[0] in operators ? body[0] : '') as Operator;
+				const names = body.slice(operator.length).split(',');
+				if (names.some((name) => !/^[A-Za-z0-9_.%]+$/.test(name))) {
+					throw new Error(`Unsupported URI template expression: ${part}`);
+				}
+				this.parts.push({ operator, names });
+			} else {
+				this.parts.push(part);
+			}
+		}
+		this.regex = new RegExp(`^${this.parts.map(this.pattern).join('')}$`);
+	}
+
+	static isTemplate = (uri: string) => /\{[^{}]*\}/.test(uri);
+
+	get variables() {
+		return this.expressions.flatMap(({ names }) => names);
+	}
+
+	/** How much of the template is fixed, to prefer `users/{id}/posts` over `users/{id}/{section}`. */
+	get specificity() {
+		return this.parts.reduce(
+			(length, part) => length + (typeof part === 'string' ? part.length : 0),
+			0
+		);
+	}
+
+	private get expressions() {
+		return this.parts.filter((part): part is Expression => typeof part !== 'string');
+	}
+
+	private pattern = (part: string | Expression) => {
+		if (typeof part === 'string') {
+			return escape(part);
+		}
+		const { operator, names } = part;
+		switch (operator) {
+			case '':
+				return names.map(() => '([^/?#,;]*)').join(',');
+			case '+':
+				return names.map(() => '([^?#]*?)').join(',');
+			case '#':
+				return `(?:#${names.map(() => '(.*?)').join(',')})?`;
+			case '.':
+			case '/':
+				return names.map(() => `(?:\\${operator}([^/?#.,;]*))?`).join('');
+			case ';':
+				return names.map((name) => `(?:;${escape(name)}(?:=([^;/?#]*))?)?`).join('');
+			// Query parameters can come in any order, they are parsed once matched.
+			case '?':
+			case '&':
+				return `(?:\\${operator}([^#]*))?`;
+		}
+	};
+
+	/** The values of the variables when the URI matches the template, undefined otherwise. */
+	match = (uri: string) => {
+		const match = this.regex.exec(uri);
+		if (!match) {
+			return undefined;
+		}
+
+		const params: Record<string, string> = {};
+		let group = 1;
+		for (const { operator, names } of this.expressions) {
+			if (operator === '?' || operator === '&') {
+				const query = match[group++];
+				for (const pair of query?.split('&') ?? []) {
+					const [name, value = ''] = pair.split('=');
+					if (names.includes(decode(name))) {
+						params[decode(name)] = decode(value);
+					}
+				}
+				continue;
+			}
+			for (const name of names) {
+				const value = match[group++];
+				if (value !== undefined) {
+					params[name] = decode(value);
+				}
+			}
+		}
+		return params;
+	};
+
+	expand = (values: TemplateValues) => {
+		return this.parts
+			.map((part) => {
+				if (typeof part === 'string') {
+					return part;
+				}
+				const { first, separator, named, ifEmpty, reserved } = operators[part.operator];
+				const expanded = part.names
+					.filter((name) => values[name] !== undefined)
+					.map((name) => {
+						const value = encode(String(values[name]), reserved);
+						if (!named) {
+							return value;
+						}
+						return value ? `${name}=${value}` : `${name}${ifEmpty}`;
+					});
+				return expanded.length ? first + expanded.join(separator) : '';
+			})
+			.join('');
+	};
+}
+
+/** Builds a URI from a template, e.g. `expandTemplate('users://{id}{?tab}', { id: 1 })`. */
+export const expandTemplate = <T extends string>(
+	template: T,
+	values: { [K in keyof TemplateParams<T>]: TemplateParams<T>[K] | number | boolean }
+) => {
+	return new UriTemplate(template).expand(values as TemplateValues);
+};